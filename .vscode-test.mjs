@@ -1,5 +1,11 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { defineConfig } from '@vscode/test-cli';
 
 export default defineConfig({
 	files: 'out/test/**/*.test.js',
+	// Runs write prd.json and .ralph/ into the workspace, so every test run gets a fresh folder
+	workspaceFolder: fs.mkdtempSync(path.join(os.tmpdir(), 'ralph-runner-test-')),
+	mocha: { timeout: 20000 },
 });
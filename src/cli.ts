@@ -0,0 +1,486 @@
+#!/usr/bin/env node
+// ── ralph CLI ───────────────────────────────────────────────────────────────
+// `ralph` — drive a PRD from a terminal or CI, without VS Code. Uses the same
+// core as the extension and reads and writes the same .ralph/ state, so a run
+// started here can be continued in the editor and vice versa. Stories are
+// executed by a command-line agent, like the extension's shell executor.
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import type { RunLockOwner, UserStory } from './core';
+import {
+	DEFAULT_RUN_LOCK_STALE_MS, PRD_FILENAME, PROGRESS_FILENAME, RALPH_DIR, RUN_LOCK_HEARTBEAT_MS,
+	RalphStateManager, SHELL_COMPLETION_LINES, VERIFY_OUTPUT_TAIL_LINES, buildStoryPrompt,
+	createRunLockOwner, describeRunLock, findNextPendingStory, formatPrdProblem, getPrdPath,
+	getResolvedIds, getStoryAttempts, getStoryHistory, getStoryTimeout, getVerifyCommands, locatePrdProblems,
+	parsePrd, readProgress, recordFailedAttempt, resetStoryState, runShellAgent, runShellCommand, setCoreHost,
+	tailLines, toWorkspaceRelative, validatePrdText, writeProgressEntry,
+} from './core';
+
+const USAGE = `Usage: ralph <command> [options]
+
+Commands:
+  run                  Execute pending stories with a command-line agent
+  status               Show the status of every story
+  reset <id>... | --all
+                       Reset stories so that they run again
+  validate             Check the PRD for problems
+
+Options:
+  --cwd <dir>              Workspace folder (default: the current directory)
+  --prd <path>             PRD file, relative to the folder (default: ${PRD_FILENAME})
+  --state-dir <path>       State directory (default: ${RALPH_DIR})
+  --progress-file <path>   Legacy progress file to migrate (default: ${PROGRESS_FILENAME})
+  --templates-dir <path>   Prompt templates directory (default: ${RALPH_DIR}/templates)
+
+Options for run:
+  --agent <command>        Agent command; gets the prompt on stdin (default: $RALPH_AGENT_COMMAND)
+  --max-stories <n>        Stories to execute before stopping (default: no limit)
+  --max-attempts <n>       Attempts per story before it is given up on (default: 3)
+  --backoff <ms>           Delay before retrying a failed story, doubled per failure (default: 30000)
+  --timeout <ms>           Maximum run time of the agent per story, unless the story sets timeoutMs (default: 3600000)
+  --verify-timeout <ms>    Maximum run time of a verification command (default: 600000)
+  --context-max-chars <n>  Budget for story files and summaries in prompts (default: 32000)
+  --lock-stale-after <ms>  Heartbeat age after which another run's lock is recovered (default: ${DEFAULT_RUN_LOCK_STALE_MS})
+  --force                  Take over the run lock even if its holder seems alive
+
+Options for reset:
+  --force                  Reset even if another run holds the run lock (see --lock-stale-after)
+
+Options for status:
+  --json                   Print the status as JSON
+
+Press Ctrl+C once to pause after the current story, twice to stop at once.
+A paused run is continued by the next \`ralph run\` or by RALPH: Resume.
+`;
+
+const OPTIONS = {
+	'cwd': { type: 'string' },
+	'prd': { type: 'string' },
+	'state-dir': { type: 'string' },
+	'progress-file': { type: 'string' },
+	'templates-dir': { type: 'string' },
+	'agent': { type: 'string' },
+	'max-stories': { type: 'string' },
+	'max-attempts': { type: 'string' },
+	'backoff': { type: 'string' },
+	'timeout': { type: 'string' },
+	'verify-timeout': { type: 'string' },
+	'context-max-chars': { type: 'string' },
+	'lock-stale-after': { type: 'string' },
+	'force': { type: 'boolean' },
+	'json': { type: 'boolean' },
+	'all': { type: 'boolean' },
+	'help': { type: 'boolean', short: 'h' },
+} as const;
+
+type CliOptions = ReturnType<typeof parseCliArgs>['values'];
+
+/** Thrown for invalid invocations; reported with the usage text. */
+class UsageError extends Error { }
+
+function parseCliArgs(args: string[]) {
+	return parseArgs({ args, options: OPTIONS, allowPositionals: true });
+}
+
+function log(message: string): void {
+	const timestamp = new Date().toISOString().slice(11, 19);
+	console.log(`[${timestamp}] ${message}`);
+}
+
+/** Parse a numeric option; values below `min` (counts and timeouts need at least 1) are usage errors. */
+function toNumber(value: string | undefined, name: string, fallback: number, min = 0): number {
+	if (value === undefined) { return fallback; }
+	const parsed = value.trim() === '' ? NaN : Number(value);
+	if (!Number.isFinite(parsed) || parsed < min) {
+		throw new UsageError(min === 0 ? `--${name} must be a non-negative number` : `--${name} must be a number of at least ${min}`);
+	}
+	return parsed;
+}
+
+async function main(argv: string[]): Promise<number> {
+	let parsed: ReturnType<typeof parseCliArgs>;
+	try {
+		parsed = parseCliArgs(argv);
+	} catch (e: unknown) {
+		console.error(`${e instanceof Error ? e.message : String(e)}\n\n${USAGE}`);
+		return 2;
+	}
+	const { values, positionals } = parsed;
+	const [command, ...rest] = positionals;
+	if (values.help || !command) {
+		console.log(USAGE);
+		return values.help ? 0 : 2;
+	}
+
+	const workspaceRoot = path.resolve(values.cwd ?? process.cwd());
+	setCoreHost({
+		getPrdPath: () => path.resolve(workspaceRoot, values.prd ?? PRD_FILENAME),
+		getLocations: () => ({
+			progressFilePath: values['progress-file'] ?? PROGRESS_FILENAME,
+			stateDirectory: values['state-dir'] ?? RALPH_DIR,
+			templatesDirectory: values['templates-dir'] ?? `${RALPH_DIR}/templates`,
+		}),
+		log,
+	});
+
+	try {
+		switch (command) {
+			case 'run': return await runPrd(workspaceRoot, values);
+			case 'status': return showStatus(workspaceRoot, values);
+			case 'reset': return resetStories(workspaceRoot, rest, values);
+			case 'validate': return validatePrd(workspaceRoot);
+			default: throw new UsageError(`Unknown command: ${command}`);
+		}
+	} catch (e: unknown) {
+		if (e instanceof UsageError) {
+			console.error(`${e.message}\n\n${USAGE}`);
+			return 2;
+		}
+		console.error(`ralph: ${e instanceof Error ? e.message : String(e)}`);
+		return 1;
+	}
+}
+
+// ── run ─────────────────────────────────────────────────────────────────────
+
+interface RunSettings {
+	agent: string;
+	maxAttempts: number;
+	backoffMs: number;
+	timeoutMs: number;
+	verifyTimeoutMs: number;
+	contextMaxChars: number;
+	signal: AbortSignal;
+}
+
+/**
+ * The autonomous loop: runs the next pending story until none is left, the
+ * story limit is reached or the user interrupts. Returns 1 if any story
+ * failed in this run.
+ */
+async function runPrd(workspaceRoot: string, values: CliOptions): Promise<number> {
+	const agent = (values.agent ?? process.env.RALPH_AGENT_COMMAND ?? '').trim();
+	if (!agent) {
+		throw new UsageError('No agent command — pass --agent or set RALPH_AGENT_COMMAND');
+	}
+	const maxStories = toNumber(values['max-stories'], 'max-stories', Infinity, 1);
+	const controller = new AbortController();
+	const settings: RunSettings = {
+		agent,
+		maxAttempts: toNumber(values['max-attempts'], 'max-attempts', 3, 1),
+		backoffMs: toNumber(values.backoff, 'backoff', 30000),
+		timeoutMs: toNumber(values.timeout, 'timeout', 3600000, 1),
+		verifyTimeoutMs: toNumber(values['verify-timeout'], 'verify-timeout', 600000, 1),
+		contextMaxChars: toNumber(values['context-max-chars'], 'context-max-chars', 32000),
+		signal: controller.signal,
+	};
+
+	if (!parsePrd(workspaceRoot)) { return 1; }
+
+	// Refuse to run alongside a live run in VS Code or another terminal
+	const owner = takeRunLock(workspaceRoot, values);
+	if (!owner) { return 1; }
+	const heartbeat = setInterval(() => {
+		if (!RalphStateManager.heartbeatRunLock(workspaceRoot, owner.id)) {
+			log('Another run took over the run lock — stopping.');
+			controller.abort();
+		}
+	}, RUN_LOCK_HEARTBEAT_MS);
+	heartbeat.unref();
+
+	// With the lock held, a story still marked in progress was interrupted
+	for (const stalledTaskId of RalphStateManager.getInProgressTaskIds(workspaceRoot)) {
+		log(`Story ${stalledTaskId} was interrupted — running it again.`);
+		RalphStateManager.clearStalledTask(workspaceRoot, stalledTaskId);
+	}
+
+	RalphStateManager.ensureGitignore(workspaceRoot);
+	const runState = RalphStateManager.readRunState(workspaceRoot);
+	let loopsExecuted = runState?.loopsExecuted ?? 0;
+	RalphStateManager.writeRunState(workspaceRoot, { status: 'running', loopsExecuted, currentStoryId: undefined, storyStartedAt: undefined });
+
+	// First Ctrl+C pauses after the current story, the second stops at once
+	let paused = false;
+	const onInterrupt = () => {
+		if (paused) {
+			log('Stopping.');
+			controller.abort();
+			return;
+		}
+		paused = true;
+		log('Pausing after the current story — press Ctrl+C again to stop now.');
+	};
+	const onTerminate = () => controller.abort();
+	process.on('SIGINT', onInterrupt);
+	process.on('SIGTERM', onTerminate);
+
+	log('═══════════════════════════════════════════════════');
+	log(`RALPH CLI ${runState ? 'resumed' : 'started'} — ${toWorkspaceRelative(process.cwd(), workspaceRoot) || '.'}`);
+	log(`Agent: ${agent}`);
+	log('═══════════════════════════════════════════════════');
+
+	let executed = 0;
+	let failed = 0;
+	try {
+		while (executed < maxStories && !paused && !controller.signal.aborted) {
+			const prd = parsePrd(workspaceRoot);
+			if (!prd) {
+				failed++;
+				break;
+			}
+
+			const story = findNextPendingStory(prd, workspaceRoot, true);
+			if (!story) {
+				const resolvedIds = getResolvedIds(readProgress(workspaceRoot));
+				log(prd.userStories.every(s => resolvedIds.has(s.id))
+					? '🎉 All user stories completed!'
+					: 'No runnable stories left — every remaining story has been given up on or is waiting on an unfinished dependency.');
+				break;
+			}
+
+			log('');
+			log(`──── Story ${executed + 1}${Number.isFinite(maxStories) ? `/${maxStories}` : ''} ────`);
+			log(`Story ${story.id}: ${story.title}`);
+
+			const previousAttempts = getStoryAttempts(workspaceRoot, story.id);
+			if (previousAttempts) {
+				log(`Retrying — attempt ${previousAttempts.failures + 1}/${settings.maxAttempts} (last error: ${previousAttempts.lastError})`);
+				const backoff = settings.backoffMs * Math.pow(2, previousAttempts.failures - 1);
+				const remaining = backoff - (Date.now() - Date.parse(previousAttempts.lastFailedAt));
+				if (remaining > 0) {
+					log(`  Backing off ${Math.round(remaining / 1000)}s before retrying ${story.id}...`);
+					await sleep(remaining, controller.signal);
+					if (controller.signal.aborted) { break; }
+				}
+			}
+
+			if (!(await runStory(story, workspaceRoot, settings, previousAttempts?.lastError)) && !controller.signal.aborted) { failed++; }
+			executed++;
+			loopsExecuted++;
+			RalphStateManager.writeRunState(workspaceRoot, { loopsExecuted });
+		}
+	} finally {
+		process.off('SIGINT', onInterrupt);
+		process.off('SIGTERM', onTerminate);
+		if (paused && !controller.signal.aborted) {
+			RalphStateManager.writeRunState(workspaceRoot, { status: 'paused' });
+			log('Paused. Run `ralph run` or RALPH: Resume to continue.');
+		} else {
+			RalphStateManager.clearRunState(workspaceRoot);
+		}
+		clearInterval(heartbeat);
+		RalphStateManager.releaseRunLock(workspaceRoot, owner.id);
+	}
+
+	log(`Executed ${executed} stor${executed === 1 ? 'y' : 'ies'}, ${failed} failed.`);
+	return failed > 0 || controller.signal.aborted ? 1 : 0;
+}
+
+/**
+ * One attempt at a story, recorded in the progress store exactly like the
+ * extension records it. Returns whether the story is done.
+ */
+async function runStory(story: UserStory, workspaceRoot: string, settings: RunSettings, previousFailure?: string): Promise<boolean> {
+	const startedAt = new Date();
+	RalphStateManager.setInProgress(workspaceRoot, story.id);
+	RalphStateManager.writeRunState(workspaceRoot, { currentStoryId: story.id, storyStartedAt: startedAt.toISOString() });
+
+	try {
+		const prompt = buildStoryPrompt(story, workspaceRoot, {
+			completionSignal: SHELL_COMPLETION_LINES,
+			contextMaxChars: settings.contextMaxChars,
+			previousFailure,
+		});
+		await runShellAgent({
+			command: settings.agent,
+			prompt,
+			storyId: story.id,
+			workspaceRoot,
+			timeoutMs: getStoryTimeout(story, settings.timeoutMs),
+			signal: settings.signal,
+		});
+
+		for (const command of getVerifyCommands(story, workspaceRoot)) {
+			log(`  ▶ Verifying: ${command}`);
+			const result = await runShellCommand(command, workspaceRoot, settings.verifyTimeoutMs, { signal: settings.signal });
+			if (result.exitCode !== 0 || result.timedOut) {
+				const reason = result.timedOut ? 'timed out' : `exited with code ${result.exitCode}`;
+				throw new Error(`Verification failed: \`${command}\` ${reason}\n${tailLines(result.output, VERIFY_OUTPUT_TAIL_LINES)}`);
+			}
+			log(`  ✓ ${command} passed`);
+		}
+
+		if (story.requiresReview) {
+			log(`  ${story.id} requires review, which the command-line runner does not pause for — review its changes before building on them.`);
+		}
+
+		// An agent may still report a summary through the status file
+		const reported = RalphStateManager.getTaskResult(workspaceRoot, story.id);
+		RalphStateManager.setCompleted(workspaceRoot, story.id);
+		writeProgressEntry(workspaceRoot, story.id, 'done', 'Completed successfully', {
+			startedAt,
+			summary: reported?.summary,
+			filesChanged: reported?.filesChanged,
+		});
+		log(`✅ Story ${story.id} completed.`);
+		return true;
+	} catch (err: unknown) {
+		if (settings.signal.aborted) {
+			// Stopped by the user: not a failed attempt, the story runs again next time
+			log(`⏹ Story ${story.id} stopped.`);
+			RalphStateManager.clearStalledTask(workspaceRoot, story.id);
+			return false;
+		}
+		const errMsg = err instanceof Error ? err.message : String(err);
+		log(`❌ Story ${story.id} failed: ${errMsg}`);
+		RalphStateManager.setCompleted(workspaceRoot, story.id);
+
+		recordFailedAttempt(workspaceRoot, story.id, errMsg, settings.maxAttempts, { startedAt });
+		return false;
+	} finally {
+		RalphStateManager.writeRunState(workspaceRoot, { currentStoryId: undefined, storyStartedAt: undefined });
+	}
+}
+
+/**
+ * Take the folder's run lock for this process; with --force, a holder that
+ * seems alive is replaced. Returns undefined (after reporting the holder) if
+ * another run has it.
+ */
+function takeRunLock(workspaceRoot: string, values: CliOptions): RunLockOwner | undefined {
+	const staleAfterMs = toNumber(values['lock-stale-after'], 'lock-stale-after', DEFAULT_RUN_LOCK_STALE_MS, 1);
+	const owner = createRunLockOwner('cli', crypto.randomUUID());
+	let lock = RalphStateManager.acquireRunLock(workspaceRoot, owner, staleAfterMs);
+	if (!lock.acquired && values.force) {
+		log(`Taking over the run lock from ${describeRunLock(lock.holder)}.`);
+		RalphStateManager.releaseRunLock(workspaceRoot, lock.holder.id);
+		lock = RalphStateManager.acquireRunLock(workspaceRoot, owner, staleAfterMs);
+	}
+	if (!lock.acquired) {
+		console.error(`ralph: This folder is being run by ${describeRunLock(lock.holder)}. Use --force if that run is gone.`);
+		return undefined;
+	}
+	if (lock.recovered) {
+		log(`Recovered a stale run lock held by ${describeRunLock(lock.recovered)}.`);
+	}
+	return owner;
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+	return new Promise(resolve => {
+		const done = () => {
+			clearTimeout(timer);
+			signal.removeEventListener('abort', done);
+			resolve();
+		};
+		const timer = setTimeout(done, ms);
+		signal.addEventListener('abort', done);
+	});
+}
+
+// ── status ──────────────────────────────────────────────────────────────────
+
+function showStatus(workspaceRoot: string, values: CliOptions): number {
+	const prd = parsePrd(workspaceRoot);
+	if (!prd) { return 1; }
+
+	const progress = readProgress(workspaceRoot);
+	const inProgressId = RalphStateManager.getInProgressTaskId(workspaceRoot);
+	const stories = [...prd.userStories].sort((a, b) => a.priority - b.priority).map(story => ({
+		id: story.id,
+		title: story.title,
+		status: story.id === inProgressId ? 'inprogress' : progress.find(e => e.id === story.id)?.status ?? 'pending',
+		attempts: getStoryHistory(workspaceRoot, story.id).length,
+	}));
+	const next = findNextPendingStory(prd, workspaceRoot);
+	const run = RalphStateManager.readRunState(workspaceRoot);
+	const lock = RalphStateManager.readRunLock(workspaceRoot);
+
+	if (values.json) {
+		console.log(JSON.stringify({ project: prd.project, run: run?.status ?? null, lock: lock ?? null, next: next?.id ?? null, stories }, null, '\t'));
+		return 0;
+	}
+
+	const count = (status: string) => stories.filter(s => s.status === status).length;
+	console.log(`RALPH Status — ${prd.project}`);
+	console.log('');
+	console.log(`✅ Completed: ${count('done')}/${stories.length}`);
+	console.log(`❌ Failed: ${count('failed')}`);
+	console.log(`🛑 Gave up: ${count('gave-up')}`);
+	console.log(`⏭ Skipped: ${count('skipped')}`);
+	console.log(`⏳ Pending: ${stories.length - count('done') - count('skipped')}`);
+	console.log(`🔄 In Progress: ${inProgressId ?? 'None'}`);
+	console.log(`📍 Next: ${next ? `${next.id} — ${next.title}` : 'None'}`);
+	console.log(`Run: ${run?.status ?? 'none'}${lock ? ` — held by ${describeRunLock(lock)}` : ''}`);
+	console.log('');
+	const idWidth = Math.max(...stories.map(s => s.id.length), 2);
+	for (const story of stories) {
+		console.log(`${story.id.padEnd(idWidth)}  ${story.status.padEnd(10)}  ${story.title}${story.attempts > 1 ? ` (${story.attempts} attempts)` : ''}`);
+	}
+	return 0;
+}
+
+// ── reset ───────────────────────────────────────────────────────────────────
+
+function resetStories(workspaceRoot: string, storyIds: string[], values: CliOptions): number {
+	const prd = parsePrd(workspaceRoot);
+	if (!prd) { return 1; }
+	if (values.all) {
+		storyIds = prd.userStories.map(s => s.id);
+	}
+	if (storyIds.length === 0) {
+		throw new UsageError('reset needs story ids or --all');
+	}
+
+	const unknown = storyIds.filter(id => !prd.userStories.some(s => s.id === id));
+	if (unknown.length > 0) {
+		console.error(`ralph: Unknown stor${unknown.length === 1 ? 'y' : 'ies'}: ${unknown.join(', ')}`);
+		return 1;
+	}
+
+	// A run in progress would keep writing the state that is reset here
+	const owner = takeRunLock(workspaceRoot, values);
+	if (!owner) { return 1; }
+	try {
+		for (const id of storyIds) {
+			resetStoryState(workspaceRoot, id);
+			log(`Story ${id} reset.`);
+		}
+	} finally {
+		RalphStateManager.releaseRunLock(workspaceRoot, owner.id);
+	}
+	return 0;
+}
+
+// ── validate ────────────────────────────────────────────────────────────────
+
+/** Prints every problem as `file:line:column: message`; exits 1 if there are any. */
+function validatePrd(workspaceRoot: string): number {
+	const prdPath = getPrdPath(workspaceRoot);
+	let text: string;
+	try {
+		text = fs.readFileSync(prdPath, 'utf-8');
+	} catch (e: unknown) {
+		console.error(`ralph: Could not read ${prdPath}: ${e instanceof Error ? e.message : String(e)}`);
+		return 1;
+	}
+
+	const { problems } = validatePrdText(text);
+	const ranges = locatePrdProblems(text, problems);
+	const file = toWorkspaceRelative(process.cwd(), prdPath);
+	problems.forEach((problem, index) => {
+		const before = text.slice(0, ranges[index][0]).split('\n');
+		console.log(`${file}:${before.length}:${before[before.length - 1].length + 1}: ${formatPrdProblem(problem)}`);
+	});
+	if (problems.length > 0) {
+		console.log(`${problems.length} problem(s) found.`);
+		return 1;
+	}
+	console.log(`${file} is valid.`);
+	return 0;
+}
+
+main(process.argv.slice(2)).then(code => process.exit(code));
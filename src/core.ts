@@ -0,0 +1,1725 @@
+// ── RALPH core ──────────────────────────────────────────────────────────────
+// Everything that works on a PRD and its .ralph/ state without VS Code — PRD
+// parsing and validation, the progress store, the task state files, story
+// selection and prompt building. Shared by the extension and the `ralph` CLI,
+// so both read and write the same state.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as cp from 'child_process';
+
+// ── Host ────────────────────────────────────────────────────────────────────
+// Where the files of a folder live and where log lines go. The extension
+// installs a host backed by its settings and output channel; the CLI one
+// backed by its command-line options and stdout. Until one is installed, log
+// lines are dropped.
+
+/** Configured locations, relative to the workspace folder; may contain `${prdName}`. */
+export interface CoreLocations {
+	progressFilePath: string;
+	stateDirectory: string;
+	templatesDirectory: string;
+}
+
+export interface CoreHost {
+	/** Absolute path of the active PRD for a folder. */
+	getPrdPath(workspaceRoot: string): string;
+	getLocations(workspaceRoot: string): CoreLocations;
+	log(message: string): void;
+}
+
+export const RALPH_DIR = '.ralph';
+export const PRD_FILENAME = 'prd.json';
+export const PROGRESS_FILENAME = 'progress.txt';
+
+let host: CoreHost = {
+	getPrdPath: workspaceRoot => path.resolve(workspaceRoot, PRD_FILENAME),
+	getLocations: () => ({
+		progressFilePath: PROGRESS_FILENAME,
+		stateDirectory: RALPH_DIR,
+		templatesDirectory: `${RALPH_DIR}/templates`,
+	}),
+	log: () => { },
+};
+
+export function setCoreHost(next: Partial<CoreHost>): void {
+	host = { ...host, ...next };
+}
+
+function log(message: string): void {
+	host.log(message);
+}
+
+// ── Types ───────────────────────────────────────────────────────────────────
+
+export interface PrdFile {
+	project: string;
+	branchName: string;
+	description: string;
+	userStories: UserStory[];
+	verify?: string | string[]; // default verification commands for every story
+	instructions?: string | string[]; // house rules appended to every story prompt
+}
+
+export interface UserStory {
+	id: string;           // e.g. "US-001"
+	title: string;
+	description: string;
+	acceptanceCriteria: string[];
+	priority: number;
+	dependsOn?: string[]; // ids of stories that must be "done" first
+	verify?: string | string[]; // shell commands that must exit 0 before the story is "done"
+	executor?: string;    // executor id; overrides the "executor" setting
+	files?: string[];     // globs of files whose contents are attached to the prompt
+	timeoutMs?: number;   // time the agent gets for this story; overrides copilotTimeoutMs
+	requiresReview?: boolean; // pause for a diff review before the story counts as "done"
+}
+
+/** Final states an agent can report in the task status file. */
+export type TaskOutcome = 'completed' | 'failed' | 'blocked' | 'needs-input';
+
+/**
+ * Structured completion written to .ralph/task-<id>-status, e.g.
+ * { "status": "blocked", "reason": "The API key is missing" }.
+ * A plain `completed` is read as { status: "completed" }.
+ */
+export interface TaskResult {
+	status: TaskOutcome;
+	summary?: string;
+	filesChanged?: string[];
+	reason?: string; // why it failed / is blocked, or the question for needs-input
+}
+
+/**
+ * A folder's run, persisted in .ralph/run.json so that a paused run — or one
+ * interrupted by a window reload — can be resumed.
+ */
+export interface RunState {
+	status: 'running' | 'paused';
+	loopsExecuted: number;      // stories executed so far in this run
+	currentStoryId?: string;    // story in flight, if any
+	storyStartedAt?: string;    // ISO timestamp of the in-flight attempt
+	checkpoint?: string;        // checkpoint of the in-flight attempt
+	historyDir?: string;        // run history directory under .ralph/runs/
+	updatedAt: string;
+}
+
+/** Who is running RALPH on a folder: a VS Code window or a `ralph` process. */
+export interface RunLockOwner {
+	id: string;           // the window's session id, or a random id per CLI process
+	kind: 'vscode' | 'cli';
+	pid: number;
+	hostname: string;
+}
+
+/**
+ * The run lock in .ralph/run.lock. Its owner refreshes `heartbeatAt` every
+ * RUN_LOCK_HEARTBEAT_MS while it holds the lock.
+ */
+export interface RunLock extends RunLockOwner {
+	startedAt: string;    // ISO timestamp
+	heartbeatAt: string;  // ISO timestamp
+}
+
+export type RunLockResult =
+	| { acquired: true; recovered?: RunLock }  // `recovered`: the stale lock that was replaced
+	| { acquired: false; holder: RunLock };
+
+/** A story's failed attempts since it last succeeded or was reset; derived from the progress store. */
+export interface StoryAttempts {
+	failures: number;     // failed attempts so far
+	lastError: string;
+	lastFailedAt: string; // ISO timestamp
+}
+
+// ── Filesystem Task State Manager ────────────────────────────────────────────
+// Manages .ralph/task-<id>-status files to provide a durable, process-safe
+// execution lock.  File content is either "inprogress", "completed", or a
+// TaskResult JSON object with the outcome the agent reported.
+
+export class RalphStateManager {
+
+	/** Absolute path to the state directory (.ralph by default) for the workspace. */
+	static getRalphDir(workspaceRoot: string): string {
+		return resolveLocation(workspaceRoot, host.getLocations(workspaceRoot).stateDirectory);
+	}
+
+	/** Absolute path to the status file for a given task id. */
+	static getTaskStatusPath(workspaceRoot: string, taskId: string): string {
+		return path.join(RalphStateManager.getRalphDir(workspaceRoot), `task-${taskId}-status`);
+	}
+
+	/**
+	 * Ensure the .ralph directory exists.  Safe to call multiple times.
+	 */
+	static ensureDir(workspaceRoot: string): void {
+		const dir = RalphStateManager.getRalphDir(workspaceRoot);
+		if (!fs.existsSync(dir)) {
+			fs.mkdirSync(dir, { recursive: true });
+		}
+	}
+
+	/**
+	 * Write "inprogress" for the given task.
+	 * Creates the .ralph directory if it does not yet exist.
+	 * Overwrites any previous state for this task id.
+	 */
+	static setInProgress(workspaceRoot: string, taskId: string): void {
+		RalphStateManager.ensureDir(workspaceRoot);
+		fs.writeFileSync(
+			RalphStateManager.getTaskStatusPath(workspaceRoot, taskId),
+			'inprogress',
+			{ encoding: 'utf-8', flag: 'w' }
+		);
+	}
+
+	/**
+	 * Write "completed" for the given task.
+	 * Safe to call even if the file does not already exist.
+	 */
+	static setCompleted(workspaceRoot: string, taskId: string): void {
+		RalphStateManager.ensureDir(workspaceRoot);
+		fs.writeFileSync(
+			RalphStateManager.getTaskStatusPath(workspaceRoot, taskId),
+			'completed',
+			{ encoding: 'utf-8', flag: 'w' }
+		);
+	}
+
+	/**
+	 * Read the current task state from disk.
+	 * Returns "inprogress", the reported outcome, or "none" (file absent,
+	 * unreadable or not understood).
+	 */
+	static getTaskStatus(workspaceRoot: string, taskId: string): 'inprogress' | TaskOutcome | 'none' {
+		const filePath = RalphStateManager.getTaskStatusPath(workspaceRoot, taskId);
+		try {
+			if (fs.readFileSync(filePath, 'utf-8').trim() === 'inprogress') { return 'inprogress'; }
+		} catch {
+			return 'none'; // file missing or unreadable
+		}
+		return RalphStateManager.getTaskResult(workspaceRoot, taskId)?.status ?? 'none';
+	}
+
+	/**
+	 * Parse the outcome an agent wrote to the status file: either the plain
+	 * text `completed` or a TaskResult JSON object. Returns undefined while the
+	 * task is still in progress or the content is not understood.
+	 */
+	static getTaskResult(workspaceRoot: string, taskId: string): TaskResult | undefined {
+		let content: string;
+		try {
+			content = fs.readFileSync(RalphStateManager.getTaskStatusPath(workspaceRoot, taskId), 'utf-8').trim();
+		} catch {
+			return undefined;
+		}
+		if (content === 'completed') { return { status: 'completed' }; }
+
+		try {
+			const data: unknown = JSON.parse(content);
+			if (!isRecord(data) || !['completed', 'failed', 'blocked', 'needs-input'].includes(data.status as string)) {
+				return undefined;
+			}
+			return {
+				status: data.status as TaskOutcome,
+				...(typeof data.summary === 'string' && data.summary.trim() ? { summary: data.summary.trim() } : {}),
+				...(Array.isArray(data.filesChanged) ? { filesChanged: data.filesChanged.filter((f): f is string => typeof f === 'string') } : {}),
+				...(typeof data.reason === 'string' && data.reason.trim() ? { reason: data.reason.trim() } : {}),
+			};
+		} catch {
+			return undefined; // not JSON (yet) — e.g. still being written
+		}
+	}
+
+	/**
+	 * Returns the id of the first task whose status file contains "inprogress",
+	 * or null if no task is currently active.
+	 */
+	static getInProgressTaskId(workspaceRoot: string): string | null {
+		return RalphStateManager.getInProgressTaskIds(workspaceRoot)[0] ?? null;
+	}
+
+	/** Ids of every task whose status file contains "inprogress" (several in parallel mode). */
+	static getInProgressTaskIds(workspaceRoot: string): string[] {
+		const dir = RalphStateManager.getRalphDir(workspaceRoot);
+		if (!fs.existsSync(dir)) { return []; }
+
+		let entries: string[];
+		try {
+			entries = fs.readdirSync(dir);
+		} catch {
+			return [];
+		}
+
+		return entries
+			.map(entry => entry.match(/^task-(.+)-status$/)?.[1])
+			.filter((taskId): taskId is string => taskId !== undefined && RalphStateManager.getTaskStatus(workspaceRoot, taskId) === 'inprogress');
+	}
+
+	/** True if any task status file currently contains "inprogress". */
+	static isAnyInProgress(workspaceRoot: string): boolean {
+		return RalphStateManager.getInProgressTaskId(workspaceRoot) !== null;
+	}
+
+	/**
+	 * Reset a stalled inprogress task back to "none" by deleting its file.
+	 * Used during startup recovery when a previous RALPH session crashed.
+	 */
+	static clearStalledTask(workspaceRoot: string, taskId: string): void {
+		const filePath = RalphStateManager.getTaskStatusPath(workspaceRoot, taskId);
+		try {
+			if (fs.existsSync(filePath)) { fs.unlinkSync(filePath); }
+		} catch { /* ignore */ }
+	}
+
+	/** Absolute path to the persisted run state. */
+	static getRunStatePath(workspaceRoot: string): string {
+		return path.join(RalphStateManager.getRalphDir(workspaceRoot), 'run.json');
+	}
+
+	/** The folder's persisted run, or undefined if none is active or paused. */
+	static readRunState(workspaceRoot: string): RunState | undefined {
+		try {
+			const parsed = JSON.parse(fs.readFileSync(RalphStateManager.getRunStatePath(workspaceRoot), 'utf-8'));
+			if (isRecord(parsed) && (parsed.status === 'running' || parsed.status === 'paused')) {
+				return parsed as unknown as RunState;
+			}
+		} catch { /* file missing or unreadable */ }
+		return undefined;
+	}
+
+	/** Merge `update` into the persisted run state (creating it if needed). */
+	static writeRunState(workspaceRoot: string, update: Partial<RunState>): void {
+		RalphStateManager.ensureDir(workspaceRoot);
+		const current = RalphStateManager.readRunState(workspaceRoot) ?? { status: 'running', loopsExecuted: 0 };
+		const next = { ...current, ...update, updatedAt: new Date().toISOString() };
+		fs.writeFileSync(RalphStateManager.getRunStatePath(workspaceRoot), JSON.stringify(next, null, '\t'), 'utf-8');
+	}
+
+	static clearRunState(workspaceRoot: string): void {
+		try {
+			fs.rmSync(RalphStateManager.getRunStatePath(workspaceRoot), { force: true });
+		} catch { /* ignore */ }
+	}
+
+	/** Absolute path to the run lock. */
+	static getRunLockPath(workspaceRoot: string): string {
+		return path.join(RalphStateManager.getRalphDir(workspaceRoot), 'run.lock');
+	}
+
+	/** The current run lock, or undefined if there is none (or it is unreadable). */
+	static readRunLock(workspaceRoot: string): RunLock | undefined {
+		try {
+			return JSON.parse(fs.readFileSync(RalphStateManager.getRunLockPath(workspaceRoot), 'utf-8')) as RunLock;
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Take the folder's run lock for `owner`. A lock the owner already holds is
+	 * taken over; a lock whose heartbeat is older than `staleAfterMs`, or whose
+	 * process no longer exists on this host, is replaced. Otherwise the lock is
+	 * refused and its live holder returned.
+	 */
+	static acquireRunLock(workspaceRoot: string, owner: RunLockOwner, staleAfterMs: number): RunLockResult {
+		RalphStateManager.ensureDir(workspaceRoot);
+		const lockPath = RalphStateManager.getRunLockPath(workspaceRoot);
+		const now = new Date().toISOString();
+		const lock: RunLock = { ...owner, startedAt: now, heartbeatAt: now };
+
+		let recovered: RunLock | undefined;
+		for (let attempt = 0; attempt < 2; attempt++) {
+			try {
+				fs.writeFileSync(lockPath, JSON.stringify(lock, null, '\t') + '\n', { encoding: 'utf-8', flag: 'wx' });
+				return { acquired: true, recovered };
+			} catch (e: unknown) {
+				if ((e as NodeJS.ErrnoException).code !== 'EEXIST') { throw e; }
+			}
+			const holder = RalphStateManager.readRunLock(workspaceRoot);
+			if (holder && holder.id !== owner.id && !isRunLockStale(holder, staleAfterMs)) {
+				return { acquired: false, holder };
+			}
+			if (holder && holder.id !== owner.id) { recovered = holder; }
+			fs.rmSync(lockPath, { force: true });
+		}
+		// Another process took the lock between removing the stale one and retrying
+		const holder = RalphStateManager.readRunLock(workspaceRoot);
+		if (holder) { return { acquired: false, holder }; }
+		throw new Error(`Could not create ${lockPath}`);
+	}
+
+	/** Refresh the heartbeat of a lock held by `ownerId`. Returns false if the lock was lost. */
+	static heartbeatRunLock(workspaceRoot: string, ownerId: string): boolean {
+		const lock = RalphStateManager.readRunLock(workspaceRoot);
+		if (lock?.id !== ownerId) { return false; }
+		lock.heartbeatAt = new Date().toISOString();
+		fs.writeFileSync(RalphStateManager.getRunLockPath(workspaceRoot), JSON.stringify(lock, null, '\t') + '\n', 'utf-8');
+		return true;
+	}
+
+	/** Remove the run lock if `ownerId` holds it. */
+	static releaseRunLock(workspaceRoot: string, ownerId: string): void {
+		if (RalphStateManager.readRunLock(workspaceRoot)?.id !== ownerId) { return; }
+		try {
+			fs.rmSync(RalphStateManager.getRunLockPath(workspaceRoot), { force: true });
+		} catch { /* ignore */ }
+	}
+
+	/**
+	 * Ensure the state directory (`.ralph/` by default) is present in the
+	 * workspace's .gitignore. Creates .gitignore if it does not exist.
+	 * Does nothing for a state directory outside the workspace folder.
+	 * Safe to call multiple times.
+	 */
+	static ensureGitignore(workspaceRoot: string): void {
+		const gitignorePath = path.join(workspaceRoot, '.gitignore');
+		const relativeDir = toWorkspaceRelative(workspaceRoot, RalphStateManager.getRalphDir(workspaceRoot));
+		if (relativeDir.startsWith('..') || path.isAbsolute(relativeDir)) { return; }
+		const entriesToIgnore = [`${relativeDir}/`];
+
+		try {
+			let content = '';
+			if (fs.existsSync(gitignorePath)) {
+				content = fs.readFileSync(gitignorePath, 'utf-8');
+			}
+
+			const missing: string[] = [];
+			for (const entry of entriesToIgnore) {
+				// Build a regex that matches the entry (with optional trailing slash/backslash)
+				const escaped = entry.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+				const pattern = new RegExp(`^\\s*${escaped}\\s*$`, 'm');
+				if (!pattern.test(content)) {
+					missing.push(entry);
+				}
+			}
+
+			if (missing.length === 0) { return; }
+
+			// Append with a leading newline if the file doesn't already end with one
+			const separator = content.length > 0 && !content.endsWith('\n') ? '\n' : '';
+			const block = missing.join('\n');
+			fs.writeFileSync(gitignorePath, `${content}${separator}\n# RALPH Runner task state\n${block}\n`, 'utf-8');
+			log(`  Added to .gitignore: ${missing.join(', ')}`);
+		} catch (e: unknown) {
+			const msg = e instanceof Error ? e.message : String(e);
+			log(`  WARNING: Could not update .gitignore: ${msg}`);
+		}
+	}
+}
+
+// ── Run Lock ────────────────────────────────────────────────────────────────
+// Only one VS Code window or `ralph` process runs a folder at a time. The
+// holder of .ralph/run.lock refreshes its heartbeat while it runs; a lock
+// whose heartbeat stopped (or whose process is gone) is recovered on start.
+
+export const RUN_LOCK_HEARTBEAT_MS = 10000;
+export const DEFAULT_RUN_LOCK_STALE_MS = 60000;
+
+/** This process as a lock owner. */
+export function createRunLockOwner(kind: RunLockOwner['kind'], id: string): RunLockOwner {
+	return { id, kind, pid: process.pid, hostname: os.hostname() };
+}
+
+/** True if the holder stopped its heartbeat, or its process is gone on this host. */
+export function isRunLockStale(lock: RunLock, staleAfterMs: number): boolean {
+	const heartbeat = Date.parse(lock.heartbeatAt);
+	if (Number.isNaN(heartbeat) || Date.now() - heartbeat > staleAfterMs) { return true; }
+	return lock.hostname === os.hostname() && !isProcessAlive(lock.pid);
+}
+
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0); // signal 0 only checks that the process exists
+		return true;
+	} catch (e: unknown) {
+		return (e as NodeJS.ErrnoException).code === 'EPERM';
+	}
+}
+
+/** "a VS Code window (pid 123 on host), running since …, last heartbeat 4s ago" */
+export function describeRunLock(lock: RunLock): string {
+	const who = lock.kind === 'cli' ? 'the ralph CLI' : 'a VS Code window';
+	const seconds = Math.max(0, Math.round((Date.now() - Date.parse(lock.heartbeatAt)) / 1000));
+	return `${who} (pid ${lock.pid} on ${lock.hostname}), running since ${new Date(lock.startedAt).toLocaleString()}, last heartbeat ${seconds}s ago`;
+}
+
+// ── PRD File Operations ─────────────────────────────────────────────────────
+// The host decides which file is the active PRD (the extension honours the
+// prdPath setting and RALPH: Select PRD; the CLI its --prd option).
+
+export function isGlobPattern(value: string): boolean {
+	return /[*?{}[\]]/.test(value);
+}
+
+export function toWorkspaceRelative(workspaceRoot: string, absolutePath: string): string {
+	return path.relative(workspaceRoot, absolutePath).replace(/\\/g, '/');
+}
+
+/** Resolve a configured location, expanding `${prdName}`, relative to the folder. */
+export function resolveLocation(workspaceRoot: string, value: string): string {
+	const prdName = path.basename(getPrdPath(workspaceRoot), path.extname(getPrdPath(workspaceRoot)));
+	return path.resolve(workspaceRoot, value.replace(/\$\{prdName\}/g, prdName));
+}
+
+/** Absolute path of the active PRD for a folder, as decided by the host. */
+export function getPrdPath(workspaceRoot: string): string {
+	return host.getPrdPath(workspaceRoot);
+}
+
+export function parsePrd(workspaceRoot: string): PrdFile | null {
+	const prdPath = getPrdPath(workspaceRoot);
+	let content: string;
+	try {
+		content = fs.readFileSync(prdPath, 'utf-8');
+	} catch (e: unknown) {
+		const msg = e instanceof Error ? e.message : String(e);
+		log(`ERROR: Failed to read prd.json: ${msg}`);
+		return null;
+	}
+
+	const { prd, problems } = validatePrdText(content);
+	if (!prd) {
+		log(`ERROR: prd.json is invalid (${problems.length} problem(s)) — first: ${formatPrdProblem(problems[0])}`);
+	}
+	return prd;
+}
+
+// ── PRD Validation ──────────────────────────────────────────────────────────
+// Validates prd.json against the PrdFile / UserStory shape and maps every
+// problem back to a JSON path so it can be shown as an editor diagnostic.
+
+export type JsonPath = (string | number)[];
+
+export interface PrdProblem {
+	message: string;
+	path: JsonPath;      // path to the offending value; [] for the whole document
+	offset?: number;     // explicit character offset (used for JSON syntax errors)
+}
+
+export interface PrdValidationResult {
+	prd: PrdFile | null; // only set when there are no problems
+	problems: PrdProblem[];
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parses and validates the text of a prd.json file.
+ * Checks required fields and their types, duplicate story ids,
+ * unknown dependsOn references and dependency cycles.
+ */
+export function validatePrdText(text: string): PrdValidationResult {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch (e: unknown) {
+		const msg = e instanceof Error ? e.message : String(e);
+		const position = msg.match(/position (\d+)/);
+		return {
+			prd: null,
+			problems: [{ message: `Invalid JSON: ${msg}`, path: [], offset: position ? Number(position[1]) : 0 }]
+		};
+	}
+
+	const problems: PrdProblem[] = [];
+	if (!isRecord(data)) {
+		return { prd: null, problems: [{ message: 'prd.json must contain a JSON object', path: [] }] };
+	}
+
+	for (const field of ['project', 'branchName', 'description']) {
+		if (typeof data[field] !== 'string') {
+			problems.push({
+				message: field in data ? `"${field}" must be a string` : `Missing required field "${field}"`,
+				path: field in data ? [field] : []
+			});
+		}
+	}
+
+	if ('verify' in data) {
+		validateVerifyField(data.verify, ['verify'], problems);
+	}
+
+	if ('instructions' in data) {
+		const instructions = data.instructions;
+		if (Array.isArray(instructions)) {
+			instructions.forEach((line: unknown, index: number) => {
+				if (typeof line !== 'string') {
+					problems.push({ message: 'Instruction must be a string', path: ['instructions', index] });
+				}
+			});
+		} else if (typeof instructions !== 'string') {
+			problems.push({ message: '"instructions" must be a string or an array of strings', path: ['instructions'] });
+		}
+	}
+
+	if (!Array.isArray(data.userStories)) {
+		problems.push({
+			message: 'userStories' in data ? '"userStories" must be an array' : 'Missing required field "userStories"',
+			path: 'userStories' in data ? ['userStories'] : []
+		});
+		return { prd: null, problems };
+	}
+
+	const stories: unknown[] = data.userStories;
+	const seenIds = new Map<string, number>();
+	const allIds = new Set(stories.filter(isRecord).map(s => s.id).filter((id): id is string => typeof id === 'string'));
+
+	stories.forEach((story, index) => {
+		const storyPath: JsonPath = ['userStories', index];
+		if (!isRecord(story)) {
+			problems.push({ message: 'User story must be an object', path: storyPath });
+			return;
+		}
+
+		const requireString = (field: string) => {
+			if (!(field in story)) {
+				problems.push({ message: `Missing required field "${field}"`, path: storyPath });
+			} else if (typeof story[field] !== 'string' || (story[field] as string).trim() === '') {
+				problems.push({ message: `"${field}" must be a non-empty string`, path: [...storyPath, field] });
+			}
+		};
+		requireString('id');
+		requireString('title');
+		requireString('description');
+
+		if (typeof story.id === 'string') {
+			const firstIndex = seenIds.get(story.id);
+			if (firstIndex !== undefined) {
+				problems.push({ message: `Duplicate story id "${story.id}" (also used by userStories[${firstIndex}])`, path: [...storyPath, 'id'] });
+			} else {
+				seenIds.set(story.id, index);
+			}
+		}
+
+		if (!('acceptanceCriteria' in story)) {
+			problems.push({ message: 'Missing required field "acceptanceCriteria"', path: storyPath });
+		} else if (!Array.isArray(story.acceptanceCriteria)) {
+			problems.push({ message: '"acceptanceCriteria" must be an array of strings', path: [...storyPath, 'acceptanceCriteria'] });
+		} else {
+			story.acceptanceCriteria.forEach((ac: unknown, acIndex: number) => {
+				if (typeof ac !== 'string') {
+					problems.push({ message: 'Acceptance criterion must be a string', path: [...storyPath, 'acceptanceCriteria', acIndex] });
+				}
+			});
+		}
+
+		if (!('priority' in story)) {
+			problems.push({ message: 'Missing required field "priority"', path: storyPath });
+		} else if (typeof story.priority !== 'number' || !Number.isFinite(story.priority)) {
+			problems.push({ message: '"priority" must be a number', path: [...storyPath, 'priority'] });
+		}
+
+		if ('dependsOn' in story) {
+			if (!Array.isArray(story.dependsOn)) {
+				problems.push({ message: '"dependsOn" must be an array of story ids', path: [...storyPath, 'dependsOn'] });
+			} else {
+				story.dependsOn.forEach((depId: unknown, depIndex: number) => {
+					const depPath = [...storyPath, 'dependsOn', depIndex];
+					if (typeof depId !== 'string') {
+						problems.push({ message: 'Dependency must be a story id string', path: depPath });
+					} else if (!allIds.has(depId)) {
+						problems.push({ message: `Unknown story id "${depId}" in dependsOn`, path: depPath });
+					} else if (depId === story.id) {
+						problems.push({ message: 'A story cannot depend on itself', path: depPath });
+					}
+				});
+			}
+		}
+
+		if ('verify' in story) {
+			validateVerifyField(story.verify, [...storyPath, 'verify'], problems);
+		}
+
+		if ('files' in story) {
+			if (!Array.isArray(story.files)) {
+				problems.push({ message: '"files" must be an array of glob patterns', path: [...storyPath, 'files'] });
+			} else {
+				story.files.forEach((glob: unknown, fileIndex: number) => {
+					if (typeof glob !== 'string' || glob.trim() === '') {
+						problems.push({ message: 'File pattern must be a non-empty string', path: [...storyPath, 'files', fileIndex] });
+					}
+				});
+			}
+		}
+
+		if ('executor' in story && (typeof story.executor !== 'string' || story.executor.trim() === '')) {
+			problems.push({ message: '"executor" must be a non-empty executor id', path: [...storyPath, 'executor'] });
+		}
+
+		if ('timeoutMs' in story && (typeof story.timeoutMs !== 'number' || !(story.timeoutMs > 0))) {
+			problems.push({ message: '"timeoutMs" must be a positive number of milliseconds', path: [...storyPath, 'timeoutMs'] });
+		}
+
+		if ('requiresReview' in story && typeof story.requiresReview !== 'boolean') {
+			problems.push({ message: '"requiresReview" must be true or false', path: [...storyPath, 'requiresReview'] });
+		}
+	});
+
+	if (problems.length > 0) {
+		return { prd: null, problems };
+	}
+
+	const prd = data as unknown as PrdFile;
+	const cycle = findDependencyCycle(prd);
+	if (cycle) {
+		const index = prd.userStories.findIndex(s => s.id === cycle[0]);
+		problems.push({ message: `Dependency cycle: ${cycle.join(' → ')}`, path: ['userStories', index, 'dependsOn'] });
+		return { prd: null, problems };
+	}
+
+	return { prd, problems };
+}
+
+/** A `verify` field is a command string or an array of non-empty command strings. */
+export function validateVerifyField(value: unknown, fieldPath: JsonPath, problems: PrdProblem[]): void {
+	if (typeof value === 'string') {
+		if (value.trim() === '') {
+			problems.push({ message: '"verify" must not be empty', path: fieldPath });
+		}
+		return;
+	}
+	if (!Array.isArray(value)) {
+		problems.push({ message: '"verify" must be a command string or an array of command strings', path: fieldPath });
+		return;
+	}
+	value.forEach((command: unknown, index: number) => {
+		if (typeof command !== 'string' || command.trim() === '') {
+			problems.push({ message: 'Verification command must be a non-empty string', path: [...fieldPath, index] });
+		}
+	});
+}
+
+/** Human-readable one-line form of a problem, e.g. `userStories[2].priority: "priority" must be a number`. */
+export function formatPrdProblem(problem: PrdProblem): string {
+	const location = problem.path.reduce<string>(
+		(acc, part) => typeof part === 'number' ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part,
+		''
+	);
+	return location ? `${location}: ${problem.message}` : problem.message;
+}
+
+/**
+ * Builds a map from JSON path (serialised with JSON.stringify) to the
+ * [start, end) character range of that value in `text`. Objects and arrays
+ * map to their opening bracket only so diagnostics stay compact.
+ * Assumes `text` is syntactically valid JSON.
+ */
+export function indexJsonLocations(text: string): Map<string, [number, number]> {
+	const locations = new Map<string, [number, number]>();
+	let pos = 0;
+
+	const skipWhitespace = () => {
+		while (pos < text.length && /\s/.test(text[pos])) { pos++; }
+	};
+	const skipString = () => {
+		pos++; // opening quote
+		while (pos < text.length && text[pos] !== '"') {
+			if (text[pos] === '\\') { pos++; }
+			pos++;
+		}
+		pos++; // closing quote
+	};
+	const readValue = (valuePath: JsonPath): void => {
+		skipWhitespace();
+		const start = pos;
+		const ch = text[pos];
+
+		if (ch === '{' || ch === '[') {
+			locations.set(JSON.stringify(valuePath), [start, start + 1]);
+			const close = ch === '{' ? '}' : ']';
+			pos++;
+			skipWhitespace();
+			if (text[pos] === close) { pos++; return; }
+
+			let index = 0;
+			while (pos < text.length) {
+				skipWhitespace();
+				if (ch === '{') {
+					const keyStart = pos;
+					skipString();
+					const key = JSON.parse(text.slice(keyStart, pos)) as string;
+					skipWhitespace();
+					pos++; // ':'
+					readValue([...valuePath, key]);
+				} else {
+					readValue([...valuePath, index++]);
+				}
+				skipWhitespace();
+				const sep = text[pos++];
+				if (sep !== ',') { return; }
+			}
+			return;
+		}
+
+		if (ch === '"') {
+			skipString();
+		} else {
+			while (pos < text.length && !/[\s,\]}]/.test(text[pos])) { pos++; }
+		}
+		locations.set(JSON.stringify(valuePath), [start, pos]);
+	};
+
+	readValue([]);
+	return locations;
+}
+
+/** The [start, end) character range of every problem in `text`. */
+export function locatePrdProblems(text: string, problems: PrdProblem[]): [number, number][] {
+	const locations = problems.some(p => p.offset === undefined && p.path.length > 0)
+		? indexJsonLocations(text)
+		: new Map<string, [number, number]>();
+	return problems.map(problem => problem.offset !== undefined
+		? [problem.offset, problem.offset + 1]
+		: locations.get(JSON.stringify(problem.path)) ?? [0, 1]);
+}
+
+// ── Progress Store ──────────────────────────────────────────────────────────
+// .ralph/progress.json tracks which user stories have been completed or failed,
+// together with the full history of attempts for every story:
+//   { "version": 1, "stories": { "US-001": { status, updatedAt, notes, history: [...] } } }
+// A story that exhausted its retry attempts is recorded as "gave-up" and is
+// skipped by the loop until it is reset. A story the user chose to skip is
+// recorded as "skipped"; it is never run and counts as resolved for dependants.
+// Resetting clears the status but keeps the history. Retry counts are not
+// stored separately: they are the failed attempts at the end of the history
+// since the last reset (see getStoryAttempts).
+//
+// Older workspaces used a pipe-delimited progress.txt in the workspace root
+// (<storyId> | <status> | <timestamp> | <notes>). It is migrated once into the
+// store on first read, and can be regenerated on demand for reading by eye.
+
+export type ProgressStatus = 'done' | 'failed' | 'gave-up' | 'skipped';
+
+/** Current status of a story, as seen by the loop and the UI. */
+export interface ProgressEntry {
+	id: string;
+	status: ProgressStatus;
+	timestamp: string;   // "YYYY-MM-DD HH:MM:SS" (UTC)
+	notes: string;
+}
+
+/** One execution attempt of a story. */
+export interface ProgressAttempt {
+	startedAt: string;   // ISO timestamp
+	endedAt: string;     // ISO timestamp
+	durationMs: number;
+	outcome: ProgressStatus;
+	notes: string;
+	error?: string;
+	model?: string;
+	checkpoint?: string; // commit id of the snapshot taken before the attempt
+	summary?: string;    // the agent's account of what it did
+	filesChanged?: string[];
+}
+
+export interface StoryProgress {
+	status: ProgressStatus | null; // null once the story has been reset
+	updatedAt: string;             // ISO timestamp
+	notes: string;
+	history: ProgressAttempt[];
+	countFrom?: number;            // history index of the first attempt counted towards retries; set on reset
+}
+
+export interface ProgressStore {
+	version: 1;
+	stories: Record<string, StoryProgress>;
+}
+
+export const PROGRESS_STORE_FILENAME = 'progress.json';
+
+/** Absolute path to the structured progress store. */
+export function getProgressStorePath(workspaceRoot: string): string {
+	return path.join(RalphStateManager.getRalphDir(workspaceRoot), PROGRESS_STORE_FILENAME);
+}
+
+/** Absolute path to the legacy pipe-delimited progress file (progress.txt by default). */
+export function getProgressPath(workspaceRoot: string): string {
+	return resolveLocation(workspaceRoot, host.getLocations(workspaceRoot).progressFilePath);
+}
+
+export function formatProgressTimestamp(date: Date): string {
+	return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * Parse a legacy progress.txt into a fresh store. Each line becomes a
+ * single history attempt; the original timestamp is used for start and end.
+ */
+export function migrateLegacyProgress(workspaceRoot: string): ProgressStore {
+	const store: ProgressStore = { version: 1, stories: {} };
+	const content = fs.readFileSync(getProgressPath(workspaceRoot), 'utf-8');
+
+	for (const line of content.split('\n')) {
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith('#')) { continue; }
+
+		const parts = trimmed.split('|').map(p => p.trim());
+		if (parts.length < 2) { continue; }
+
+		const [id, status, timestamp = '', ...rest] = parts;
+		const parsedTime = Date.parse(timestamp.replace(' ', 'T') + 'Z');
+		const iso = Number.isNaN(parsedTime) ? new Date().toISOString() : new Date(parsedTime).toISOString();
+		const notes = rest.join(' | ');
+		const outcome = status as ProgressStatus;
+
+		store.stories[id] = {
+			status: outcome,
+			updatedAt: iso,
+			notes,
+			history: [{
+				startedAt: iso,
+				endedAt: iso,
+				durationMs: 0,
+				outcome,
+				notes,
+				...(outcome !== 'done' ? { error: notes } : {}),
+			}],
+		};
+	}
+	return store;
+}
+
+/** Parse progress.json; `problem` says why it cannot be used. */
+function parseProgressStore(storePath: string): { store: ProgressStore } | { problem: string } {
+	try {
+		const parsed = JSON.parse(fs.readFileSync(storePath, 'utf-8')) as ProgressStore;
+		if (isRecord(parsed) && isRecord(parsed.stories)) { return { store: parsed }; }
+		return { problem: 'no "stories" object' };
+	} catch (e: unknown) {
+		return { problem: e instanceof Error ? e.message : String(e) };
+	}
+}
+
+/**
+ * Read the progress store without touching any file, for displaying and
+ * querying progress: a legacy progress.txt is migrated in memory only, and
+ * an unreadable store reads as empty until the next write moves it aside
+ * (see loadProgressStore).
+ */
+export function readProgressStore(workspaceRoot: string): ProgressStore {
+	const storePath = getProgressStorePath(workspaceRoot);
+	if (fs.existsSync(storePath)) {
+		const parsed = parseProgressStore(storePath);
+		return 'store' in parsed ? parsed.store : { version: 1, stories: {} };
+	}
+	if (fs.existsSync(getProgressPath(workspaceRoot))) {
+		try {
+			return migrateLegacyProgress(workspaceRoot);
+		} catch {
+			// Reported by loadProgressStore when the migration is saved
+		}
+	}
+	return { version: 1, stories: {} };
+}
+
+/**
+ * Load the progress store in order to update it, migrating a legacy
+ * progress.txt the first time. Returns an empty store if neither file
+ * exists. An unreadable store is moved aside to
+ * progress.json.corrupt-<timestamp> first, so the write that follows cannot
+ * destroy the history (and checkpoints) it holds; throws if it cannot be
+ * moved.
+ */
+export function loadProgressStore(workspaceRoot: string): ProgressStore {
+	const storePath = getProgressStorePath(workspaceRoot);
+	if (fs.existsSync(storePath)) {
+		const parsed = parseProgressStore(storePath);
+		if ('store' in parsed) { return parsed.store; }
+		const { problem } = parsed;
+		const corruptPath = `${storePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+		try {
+			fs.renameSync(storePath, corruptPath);
+		} catch (e: unknown) {
+			const msg = e instanceof Error ? e.message : String(e);
+			throw new Error(`${toWorkspaceRelative(workspaceRoot, storePath)} is unreadable (${problem}) and could not be moved aside: ${msg}`);
+		}
+		log(`WARNING: ${toWorkspaceRelative(workspaceRoot, storePath)} is unreadable (${problem}). Moved it to ${toWorkspaceRelative(workspaceRoot, corruptPath)} and started a new progress store.`);
+		return { version: 1, stories: {} };
+	}
+
+	if (fs.existsSync(getProgressPath(workspaceRoot))) {
+		try {
+			const store = migrateLegacyProgress(workspaceRoot);
+			saveProgressStore(workspaceRoot, store);
+			const legacyName = toWorkspaceRelative(workspaceRoot, getProgressPath(workspaceRoot));
+			log(`Migrated ${Object.keys(store.stories).length} entries from ${legacyName} to ${toWorkspaceRelative(workspaceRoot, storePath)}. ${legacyName} is no longer updated — use 'RALPH: Export Progress' to regenerate it.`);
+			return store;
+		} catch (e: unknown) {
+			const msg = e instanceof Error ? e.message : String(e);
+			log(`WARNING: Could not migrate ${toWorkspaceRelative(workspaceRoot, getProgressPath(workspaceRoot))}: ${msg}`);
+		}
+	}
+	return { version: 1, stories: {} };
+}
+
+/** Write the store through a temporary file, so readers never see it half-written. */
+export function saveProgressStore(workspaceRoot: string, store: ProgressStore): void {
+	RalphStateManager.ensureDir(workspaceRoot);
+	const storePath = getProgressStorePath(workspaceRoot);
+	const tempPath = `${storePath}.${process.pid}.tmp`;
+	fs.writeFileSync(tempPath, JSON.stringify(store, null, '\t'), 'utf-8');
+	fs.renameSync(tempPath, storePath);
+}
+
+export function readProgress(workspaceRoot: string): ProgressEntry[] {
+	const store = readProgressStore(workspaceRoot);
+	const entries: ProgressEntry[] = [];
+	for (const [id, story] of Object.entries(store.stories)) {
+		if (!story.status) { continue; }
+		entries.push({
+			id,
+			status: story.status,
+			timestamp: formatProgressTimestamp(new Date(story.updatedAt)),
+			notes: story.notes,
+		});
+	}
+	return entries;
+}
+
+/**
+ * Record the outcome of an attempt: sets the story's current status and
+ * appends the attempt to its history. `details.startedAt` defaults to now.
+ */
+export function writeProgressEntry(
+	workspaceRoot: string,
+	id: string,
+	status: ProgressStatus,
+	notes: string,
+	details: { startedAt?: Date; error?: string; model?: string; checkpoint?: string; summary?: string; filesChanged?: string[] } = {}
+): void {
+	const store = loadProgressStore(workspaceRoot);
+	const endedAt = new Date();
+	const startedAt = details.startedAt ?? endedAt;
+
+	const story = store.stories[id] ?? { status: null, updatedAt: '', notes: '', history: [] };
+	story.status = status;
+	story.updatedAt = endedAt.toISOString();
+	story.notes = notes;
+	story.history.push({
+		startedAt: startedAt.toISOString(),
+		endedAt: endedAt.toISOString(),
+		durationMs: endedAt.getTime() - startedAt.getTime(),
+		outcome: status,
+		notes,
+		...(details.error !== undefined ? { error: details.error } : {}),
+		...(details.model !== undefined ? { model: details.model } : {}),
+		...(details.checkpoint !== undefined ? { checkpoint: details.checkpoint } : {}),
+		...(details.summary !== undefined ? { summary: details.summary } : {}),
+		...(details.filesChanged !== undefined ? { filesChanged: details.filesChanged } : {}),
+	});
+	store.stories[id] = story;
+
+	saveProgressStore(workspaceRoot, store);
+}
+
+/** Clear the current status of a story. Its attempt history is kept. */
+export function removeProgressEntry(workspaceRoot: string, id: string, notes = 'Reset by user'): void {
+	const store = loadProgressStore(workspaceRoot);
+	const story = store.stories[id];
+	if (!story || !story.status) { return; }
+
+	story.status = null;
+	story.updatedAt = new Date().toISOString();
+	story.countFrom = story.history.length;
+	story.notes = notes;
+	saveProgressStore(workspaceRoot, store);
+}
+
+/** Reset a story: clear its status (and so its retry count) and its task status file. */
+export function resetStoryState(workspaceRoot: string, storyId: string): void {
+	removeProgressEntry(workspaceRoot, storyId);
+	RalphStateManager.clearStalledTask(workspaceRoot, storyId);
+}
+
+/**
+ * The story's failed attempts in a row at the end of its history, since its
+ * last reset; undefined if its latest attempt did not fail. Retries are
+ * counted from the history itself so the two can never disagree.
+ */
+export function getStoryAttempts(workspaceRoot: string, storyId: string): StoryAttempts | undefined {
+	const story = readProgressStore(workspaceRoot).stories[storyId];
+	if (!story) { return undefined; }
+
+	let failures = 0;
+	let last: ProgressAttempt | undefined;
+	for (const attempt of story.history.slice(story.countFrom ?? 0).reverse()) {
+		if (attempt.outcome !== 'failed' && attempt.outcome !== 'gave-up') { break; }
+		failures++;
+		last ??= attempt;
+	}
+	return last ? { failures, lastError: last.error ?? last.notes, lastFailedAt: last.endedAt } : undefined;
+}
+
+/**
+ * Record a failed attempt of a story: "failed", or "gave-up" once this is
+ * failure number `maxAttempts`. Returns the outcome recorded.
+ */
+export function recordFailedAttempt(
+	workspaceRoot: string,
+	storyId: string,
+	error: string,
+	maxAttempts: number,
+	details: { startedAt: Date; model?: string; checkpoint?: string },
+	note = ''
+): ProgressStatus {
+	const failures = (getStoryAttempts(workspaceRoot, storyId)?.failures ?? 0) + 1;
+	if (failures >= maxAttempts) {
+		log(`  Giving up on ${storyId} after ${failures} failed attempt(s).`);
+		writeProgressEntry(workspaceRoot, storyId, 'gave-up', `Gave up after ${failures} attempt(s): ${error}${note}`, { ...details, error });
+		return 'gave-up';
+	}
+	writeProgressEntry(workspaceRoot, storyId, 'failed', `Attempt ${failures}/${maxAttempts}: ${error}${note}`, { ...details, error });
+	return 'failed';
+}
+
+export function getStoryProgress(workspaceRoot: string, storyId: string): ProgressEntry | undefined {
+	const entries = readProgress(workspaceRoot);
+	return entries.find(e => e.id === storyId);
+}
+
+/** All recorded attempts for a story, oldest first. */
+export function getStoryHistory(workspaceRoot: string, storyId: string): ProgressAttempt[] {
+	return readProgressStore(workspaceRoot).stories[storyId]?.history ?? [];
+}
+
+/**
+ * Write the current status of every story to progress.txt in the legacy
+ * pipe-delimited format. Newlines and pipes in notes are flattened so each
+ * entry stays on one line. Returns the path written.
+ */
+export function exportLegacyProgress(workspaceRoot: string): string {
+	const progressPath = getProgressPath(workspaceRoot);
+	const lines = [
+		`# RALPH Runner Progress (exported from ${toWorkspaceRelative(workspaceRoot, getProgressStorePath(workspaceRoot))} — not read back by RALPH)`,
+		'# Format: <storyId> | <status> | <timestamp> | <notes>',
+		...readProgress(workspaceRoot).map(e =>
+			`${e.id} | ${e.status} | ${e.timestamp} | ${e.notes.replace(/\s*[\r\n]+\s*/g, ' ').replace(/\|/g, '/')}`
+		),
+	];
+	fs.mkdirSync(path.dirname(progressPath), { recursive: true });
+	fs.writeFileSync(progressPath, lines.join('\n') + '\n', 'utf-8');
+	return progressPath;
+}
+
+/** Ids of stories that are finished from the loop's point of view ("done" or "skipped"). */
+export function getResolvedIds(progress: ProgressEntry[]): Set<string> {
+	return new Set(progress.filter(e => e.status === 'done' || e.status === 'skipped').map(e => e.id));
+}
+
+/**
+ * Returns the ids in `story.dependsOn` that are not yet resolved.
+ * Unknown ids are included too — they can never be satisfied.
+ */
+export function getUnmetDependencies(story: UserStory, resolvedIds: Set<string>): string[] {
+	return (story.dependsOn ?? []).filter(depId => !resolvedIds.has(depId));
+}
+
+/**
+ * Detects a cycle in the `dependsOn` graph of the PRD.
+ * Returns the ids forming the first cycle found (e.g. ["US-001", "US-003", "US-001"]),
+ * or null if the graph is acyclic. References to unknown ids are ignored here.
+ */
+export function findDependencyCycle(prd: PrdFile): string[] | null {
+	const byId = new Map(prd.userStories.map(s => [s.id, s]));
+	const state = new Map<string, 'visiting' | 'visited'>();
+	const stack: string[] = [];
+
+	const visit = (id: string): string[] | null => {
+		const current = state.get(id);
+		if (current === 'visited') { return null; }
+		if (current === 'visiting') {
+			return [...stack.slice(stack.indexOf(id)), id];
+		}
+
+		state.set(id, 'visiting');
+		stack.push(id);
+		for (const depId of byId.get(id)?.dependsOn ?? []) {
+			if (!byId.has(depId)) { continue; }
+			const cycle = visit(depId);
+			if (cycle) { return cycle; }
+		}
+		stack.pop();
+		state.set(id, 'visited');
+		return null;
+	};
+
+	for (const story of prd.userStories) {
+		const cycle = visit(story.id);
+		if (cycle) { return cycle; }
+	}
+	return null;
+}
+
+/**
+ * Picks the highest-priority story that is not "done", "skipped" or "gave-up"
+ * and whose dependencies are all resolved. When `logSkips` is set, every story
+ * passed over because of unmet dependencies is explained in the output channel.
+ * Stories in `exclude` (e.g. already running in parallel) are passed over.
+ */
+export function findNextPendingStory(prd: PrdFile, workspaceRoot: string, logSkips = false, exclude: ReadonlySet<string> = new Set()): UserStory | null {
+	const progress = readProgress(workspaceRoot);
+	const resolvedIds = getResolvedIds(progress);
+	const gaveUpIds = new Set(progress.filter(e => e.status === 'gave-up').map(e => e.id));
+	const knownIds = new Set(prd.userStories.map(s => s.id));
+
+	// Sort by priority (ascending — lower number = higher priority)
+	const sorted = [...prd.userStories].sort((a, b) => a.priority - b.priority);
+	for (const story of sorted) {
+		if (resolvedIds.has(story.id) || gaveUpIds.has(story.id) || exclude.has(story.id)) { continue; }
+
+		const unmet = getUnmetDependencies(story, resolvedIds);
+		if (unmet.length === 0) { return story; }
+
+		if (logSkips) {
+			const reasons = unmet.map(depId => {
+				if (!knownIds.has(depId)) { return `${depId} (unknown story)`; }
+				const entry = progress.find(e => e.id === depId);
+				return entry ? `${depId} (${entry.status})` : `${depId} (pending)`;
+			});
+			log(`  Skipping ${story.id} — waiting on dependencies: ${reasons.join(', ')}`);
+		}
+	}
+	return null;
+}
+
+/** The time the agent gets for a story: its own timeoutMs, else `defaultMs`. */
+export function getStoryTimeout(story: UserStory, defaultMs: number): number {
+	return story.timeoutMs ?? defaultMs;
+}
+
+// ── Shell Commands ──────────────────────────────────────────────────────────
+// Verification commands and command-line agents run through runShellCommand.
+
+export const VERIFY_OUTPUT_TAIL_LINES = 40;
+export const VERIFY_OUTPUT_MAX_CHARS = 64 * 1024;
+
+export function toCommandList(value: string | string[] | undefined): string[] {
+	if (value === undefined) { return []; }
+	return typeof value === 'string' ? [value] : value;
+}
+
+/** The story's own verify commands, falling back to the PRD-level default. */
+export function getVerifyCommands(story: UserStory, workspaceRoot: string): string[] {
+	if (story.verify !== undefined) { return toCommandList(story.verify); }
+	return toCommandList(parsePrd(workspaceRoot)?.verify);
+}
+
+export function tailLines(output: string, count: number): string {
+	const lines = output.replace(/\s+$/, '').split(/\r?\n/);
+	return lines.slice(-count).join('\n');
+}
+
+/** Time a killed command gets to exit after SIGTERM before it is sent SIGKILL. */
+export const SHELL_KILL_GRACE_MS = 2000;
+/** Time to collect remaining output after a command exits; a process it left running may hold the pipes open. */
+const SHELL_PIPE_DRAIN_MS = 500;
+
+/**
+ * Run a shell command in `cwd`, capturing combined stdout/stderr (only the
+ * last VERIFY_OUTPUT_MAX_CHARS are kept). `options.input` is written to
+ * stdin, `options.env` is added to the environment and `options.onOutput`
+ * sees every chunk of output. The command runs in its own process group, so
+ * a Ctrl+C in the terminal does not reach it and the whole group — not just
+ * the shell — is killed on timeout or when `options.signal` is aborted; an
+ * abort rejects with "Cancelled by user".
+ */
+export function runShellCommand(
+	command: string,
+	cwd: string,
+	timeoutMs: number,
+	options: { input?: string; env?: NodeJS.ProcessEnv; onOutput?: (chunk: string) => void; signal?: AbortSignal } = {}
+): Promise<{ exitCode: number | null; output: string; timedOut: boolean }> {
+	return new Promise((resolve, reject) => {
+		let output = '';
+		let timedOut = false;
+		let exitCode: number | null = null;
+		let settled = false;
+		let drainTimer: NodeJS.Timeout | undefined;
+		const child = cp.spawn(command, {
+			cwd,
+			shell: true,
+			detached: process.platform !== 'win32',
+			windowsHide: true,
+			env: { ...process.env, ...options.env },
+		});
+
+		// The command may exit without reading its input — ignore EPIPE
+		child.stdin?.on('error', () => { });
+		child.stdin?.end(options.input ?? '');
+
+		const append = (chunk: Buffer) => {
+			const text = chunk.toString();
+			options.onOutput?.(text);
+			output += text;
+			if (output.length > VERIFY_OUTPUT_MAX_CHARS) {
+				output = output.slice(-VERIFY_OUTPUT_MAX_CHARS);
+			}
+		};
+		child.stdout?.on('data', append);
+		child.stderr?.on('data', append);
+
+		const stop = () => {
+			killProcessGroup(child, 'SIGTERM');
+			setTimeout(() => killProcessGroup(child, 'SIGKILL'), SHELL_KILL_GRACE_MS).unref();
+		};
+		const timer = setTimeout(() => {
+			timedOut = true;
+			stop();
+		}, timeoutMs);
+		options.signal?.addEventListener('abort', stop);
+		if (options.signal?.aborted) { stop(); }
+
+		const settle = (errorText?: string) => {
+			if (settled) { return; }
+			settled = true;
+			clearTimeout(timer);
+			clearTimeout(drainTimer);
+			options.signal?.removeEventListener('abort', stop);
+			child.stdout?.destroy();
+			child.stderr?.destroy();
+			if (options.signal?.aborted) {
+				reject(new Error('Cancelled by user'));
+				return;
+			}
+			resolve({ exitCode, output: errorText ? `${output}\n${errorText}` : output, timedOut });
+		};
+
+		child.on('error', err => settle(err.message));
+		child.on('exit', code => {
+			exitCode = code;
+			drainTimer = setTimeout(() => settle(), SHELL_PIPE_DRAIN_MS);
+		});
+		child.on('close', () => settle());
+	});
+}
+
+/** Send `signal` to the child's process group (its process tree on Windows), if any of it is still running. */
+function killProcessGroup(child: cp.ChildProcess, signal: NodeJS.Signals): void {
+	if (child.pid === undefined) { return; }
+	try {
+		if (process.platform === 'win32') {
+			cp.spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore', windowsHide: true });
+		} else {
+			process.kill(-child.pid, signal);
+		}
+	} catch { /* already gone */ }
+}
+
+// ── Prompt Templates ────────────────────────────────────────────────────────
+// The story prompt and the Generate PRD prompt are rendered from templates.
+// A workspace can override them with story.md / prd.md in templatesDirectory
+// (.ralph/templates by default). Placeholders use the ${name} syntax; unknown
+// placeholders are left as they are. Optional sections (previous failure,
+// PRD instructions) expand to a complete block including a trailing blank
+// line, or to nothing.
+
+export const DEFAULT_STORY_TEMPLATE = [
+	'You are executing User Story ${storyId} of the current PRD.',
+	'Title: ${storyTitle}',
+	'Description: ${storyDescription}',
+	'Priority: ${priority}',
+	'Workspace root: ${workspaceRoot}',
+	'',
+	'Acceptance Criteria:',
+	'${acceptanceCriteria}',
+	'',
+	'Execute the following task:',
+	'',
+	'${storyDescription}',
+	'',
+	'${completedStories}${storyFiles}${previousFailure}Greedily execute as many sub-tasks as possible in a single pass.',
+	'If something partially fails, keep all the parts that passed and do not revert them.',
+	'Do not ask questions — execute directly.',
+	'Make the actual code changes to the files in the workspace.',
+	'After completing all changes, confirm what was done.',
+	'',
+	'${instructions}⚠️ IMPORTANT: Do NOT modify ${prdPath}. Never edit, overwrite, or update it for any reason.',
+	'Progress is tracked separately — your only responsibility is to execute the task and write the completion signal below.',
+	'',
+	'${completionSignal}',
+].join('\n');
+
+export const DEFAULT_PRD_TEMPLATE = [
+	'Go through entire codebase and understand the code.',
+	'The user wants to accomplish the following goal: ${userGoal}',
+	'',
+	'Workspace root: ${workspaceRoot}',
+	'',
+	'Please analyze the workspace and generate one file at ${prdPath} (relative to the workspace root) following the syntax below.',
+	'',
+	'```json',
+	'{',
+	'  "project": "<ProjectName>",',
+	'  "branchName": "ralph/<branchName>",',
+	'  "description": "<Short Description of user request>",',
+	'  "userStories": [',
+	'    {',
+	'      "id": "US-001",',
+	'      "title": "Setup Project Structure and Enums",',
+	'      "description": "Setup Project Structure and Enums",',
+	'      "acceptanceCriteria": ["Setup Project Structure and Enums"],',
+	'      "priority": 1',
+	'    }',
+	'  ]',
+	'}',
+	'```',
+	'',
+	'INSTRUCTIONS:',
+	'- If the user forgot to provide a goal, ask him again to provide one. A goal is mandatory. If the provided goal is generic/placeholder/not clear enough. Ask again.',
+	'- The json should have a logical sequence of user stories organized into phases.',
+	'- Each user story should be granular enough to be independently executable and verifiable.',
+	'- Number user stories sequentially starting from "US-001".',
+	'- Optionally add a "dependsOn" array of story ids to a user story when it must not start until those stories are done (e.g. "dependsOn": ["US-001"]). Never create circular dependencies.',
+	'- Do NOT include "passes" or "notes" fields in the user stories. Progress is tracked separately.',
+	'${gitCommitInstructions}',
+	'',
+	'IMPORTANT:',
+	'- DO NOT use any absolute, user-specific, or local system-specific paths, directories, namespaces, or usernames in any command or file path.',
+	'- All file paths and commands must be relative and portable, so the plan works for any user on any system.',
+	'- Avoid referencing any local folders outside the workspace root.',
+	'- Do not use commands that reference your own username, home directory, or machine-specific details.',
+	'- The plan must be fully shareable and portable.',
+	'',
+	'IMPORTANT:',
+	'- Create the file at: ${prdFile}',
+	'- Be thorough: include all necessary user stories for the user\'s goal',
+	'- Actually create the file — do not just show its content',
+].join('\n');
+
+/** Replace every known ${name} placeholder; unknown ones are kept verbatim. */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+	return template.replace(/\$\{(\w+)\}/g, (match, name: string) => Object.hasOwn(values, name) ? values[name] : match);
+}
+
+export function getTemplatePath(workspaceRoot: string, name: 'story' | 'prd'): string {
+	return path.join(resolveLocation(workspaceRoot, host.getLocations(workspaceRoot).templatesDirectory), `${name}.md`);
+}
+
+/** The workspace's template, or the built-in default if there is none. */
+export function loadTemplate(workspaceRoot: string, name: 'story' | 'prd', fallback: string): string {
+	const templatePath = getTemplatePath(workspaceRoot, name);
+	if (!fs.existsSync(templatePath)) { return fallback; }
+	try {
+		return fs.readFileSync(templatePath, 'utf-8');
+	} catch (e: unknown) {
+		const msg = e instanceof Error ? e.message : String(e);
+		log(`WARNING: Could not read ${toWorkspaceRelative(workspaceRoot, templatePath)} — using the built-in template: ${msg}`);
+		return fallback;
+	}
+}
+
+/** The PRD's `instructions` as a prompt block, or '' if it has none. */
+export function buildInstructionsBlock(prd: PrdFile | null): string {
+	const instructions = prd?.instructions;
+	const lines = Array.isArray(instructions)
+		? instructions.map(line => `- ${line}`)
+		: instructions?.trim() ? [instructions.trim()] : [];
+	return lines.length > 0 ? ['Project instructions (apply to every story):', ...lines, '', ''].join('\n') : '';
+}
+
+// ── Prompt Context ──────────────────────────────────────────────────────────
+// Context injected into story prompts so the agent does not start from
+// scratch every loop:
+//   - the contents of the files matched by the story's "files" globs
+//   - a running summary of the stories completed so far, from the summaries
+//     agents report when they finish (recorded in the progress store)
+// Both share the contextMaxChars budget. Completed-story summaries may use
+// up to a quarter of it (the most recent are kept); files get the rest.
+// A budget of 0 turns context injection off.
+
+export const CONTEXT_MAX_FILES_PER_GLOB = 50;
+export const SUMMARY_MAX_CHARS = 1000;
+
+/**
+ * Convert a glob to a regular expression over `/`-separated relative paths.
+ * Supports `**`, `*`, `?`, `{a,b}` and `[...]`.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let pattern = '';
+	let braces = 0;
+	for (let i = 0; i < glob.length; i++) {
+		const ch = glob[i];
+		if (ch === '*' && glob[i + 1] === '*') {
+			i++;
+			if (glob[i + 1] === '/') {
+				i++;
+				pattern += '(?:.*/)?';
+			} else {
+				pattern += '.*';
+			}
+		} else if (ch === '*') {
+			pattern += '[^/]*';
+		} else if (ch === '?') {
+			pattern += '[^/]';
+		} else if (ch === '{') {
+			braces++;
+			pattern += '(?:';
+		} else if (ch === '}' && braces > 0) {
+			braces--;
+			pattern += ')';
+		} else if (ch === ',' && braces > 0) {
+			pattern += '|';
+		} else if (ch === '[' && glob.indexOf(']', i + 1) > i + 1) {
+			const end = glob.indexOf(']', i + 1);
+			pattern += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+			i = end;
+		} else {
+			pattern += ch.replace(/[.+^$()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Files under `workspaceRoot` matching a glob, as sorted absolute paths.
+ * node_modules, .git and the state directory (which holds parallel-mode
+ * worktrees) are not searched; at most `limit` files are returned.
+ */
+export function findFiles(workspaceRoot: string, glob: string, limit = Infinity): string[] {
+	const matcher = globToRegExp(glob.replace(/\\/g, '/').replace(/^\.\//, ''));
+	const stateDir = RalphStateManager.getRalphDir(workspaceRoot);
+	const matches: string[] = [];
+	const walk = (dir: string) => {
+		let entries: fs.Dirent[];
+		try {
+			entries = fs.readdirSync(dir, { withFileTypes: true });
+		} catch {
+			return;
+		}
+		for (const entry of entries) {
+			if (matches.length >= limit) { return; }
+			const absolute = path.join(dir, entry.name);
+			if (entry.isDirectory()) {
+				if (entry.name !== 'node_modules' && entry.name !== '.git' && absolute !== stateDir) { walk(absolute); }
+			} else if (matcher.test(toWorkspaceRelative(workspaceRoot, absolute))) {
+				matches.push(absolute);
+			}
+		}
+	};
+	walk(workspaceRoot);
+	return matches.sort();
+}
+
+/** Done stories (oldest first) with their summaries, as a prompt block within `budget` characters. */
+export function buildCompletedStoriesBlock(prd: PrdFile | null, workspaceRoot: string, storyId: string, budget: number): string {
+	if (!prd || budget <= 0) { return ''; }
+
+	const lines = readProgress(workspaceRoot)
+		.filter(e => e.status === 'done' && e.id !== storyId)
+		.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+		.flatMap(e => {
+			const story = prd.userStories.find(s => s.id === e.id);
+			if (!story) { return []; }
+			const summary = [...getStoryHistory(workspaceRoot, e.id)].reverse().find(a => a.outcome === 'done')?.summary
+				?.replace(/\s+/g, ' ').slice(0, SUMMARY_MAX_CHARS);
+			return [`- ${story.id} — ${story.title}${summary ? `: ${summary}` : ''}`];
+		});
+	if (lines.length === 0) { return ''; }
+
+	const header = 'Stories already completed in this PRD (most recent last):';
+	const kept: string[] = [];
+	let used = header.length + 2;
+	for (let i = lines.length - 1; i >= 0 && used + lines[i].length + 1 <= budget; i--) {
+		kept.unshift(lines[i]);
+		used += lines[i].length + 1;
+	}
+	if (kept.length === 0) { return ''; }
+	const omitted = lines.length - kept.length;
+	return [header, ...(omitted > 0 ? [`- … ${omitted} earlier stor${omitted === 1 ? 'y' : 'ies'} omitted`] : []), ...kept, '', ''].join('\n');
+}
+
+/** The contents of the story's "files", as a prompt block within `budget` characters. */
+export function buildStoryFilesBlock(story: UserStory, workspaceRoot: string, budget: number): string {
+	if (!story.files || story.files.length === 0 || budget <= 0) { return ''; }
+
+	const files = new Set<string>();
+	for (const glob of story.files) {
+		const matches = findFiles(workspaceRoot, glob, CONTEXT_MAX_FILES_PER_GLOB);
+		if (matches.length === 0) {
+			log(`  WARNING: ${story.id}: no files match "${glob}".`);
+		}
+		matches.forEach(file => files.add(file));
+	}
+
+	const header = 'Files referenced by this story (current contents):';
+	const omittedPrefix = 'Not attached (context budget exhausted) — open them if you need them: ';
+	const sections: string[] = [];
+	const omitted: string[] = [];
+	// Room is kept for the line naming the files that do not fit.
+	const omittedReserve = omittedPrefix.length + 40;
+	let remaining = budget - header.length - 2 - omittedReserve;
+	for (const file of [...files].sort()) {
+		const relative = toWorkspaceRelative(workspaceRoot, file);
+		let content: string;
+		try {
+			content = fs.readFileSync(file, 'utf-8');
+		} catch {
+			continue;
+		}
+		if (content.slice(0, 8000).includes('\0')) { continue; } // binary
+
+		const overhead = relative.length + 20;
+		if (remaining - overhead < 200) {
+			omitted.push(relative);
+			continue;
+		}
+		if (content.length > remaining - overhead) {
+			content = `${content.slice(0, remaining - overhead - 40)}\n… (truncated to fit the context budget)`;
+		}
+		const section = `--- ${relative} ---\n\`\`\`\n${content}\n\`\`\`\n`;
+		sections.push(section);
+		remaining -= section.length + 1;
+	}
+
+	// Name as many of the files left out as fit, then just count the rest.
+	const omittedLine = (listed: number) => {
+		const more = omitted.length - listed;
+		const names = omitted.slice(0, listed).join(', ');
+		return omittedPrefix + (more === 0 ? names : listed === 0 ? `${more} files` : `${names}, … and ${more} more`);
+	};
+	let listed = omitted.length;
+	while (listed > 0 && omittedLine(listed).length > remaining + omittedReserve - 2) { listed--; }
+	const showOmitted = omitted.length > 0 && omittedLine(listed).length <= remaining + omittedReserve - 2;
+	if (sections.length === 0 && !showOmitted) { return ''; }
+
+	return [
+		header,
+		'',
+		...sections,
+		...(showOmitted ? [omittedLine(listed), ''] : []),
+		'',
+	].join('\n');
+}
+
+/**
+ * Completed-story summaries and story files for a prompt, within
+ * `contextMaxChars`. Story files are read from `filesRoot` (a worktree in
+ * parallel mode), progress from `workspaceRoot`.
+ */
+export function buildStoryContext(story: UserStory, workspaceRoot: string, prd: PrdFile | null, contextMaxChars: number, filesRoot = workspaceRoot): { completedStories: string; storyFiles: string } {
+	const budget = Math.max(0, contextMaxChars);
+	const completedStories = buildCompletedStoriesBlock(prd, workspaceRoot, story.id, Math.floor(budget / 4));
+	const storyFiles = buildStoryFilesBlock(story, filesRoot, budget - completedStories.length);
+	return { completedStories, storyFiles };
+}
+
+// ── Story Prompt ────────────────────────────────────────────────────────────
+
+/**
+ * Render the prompt for a story from the story template. `completionSignal`
+ * tells the agent how to report completion; it is appended if a custom
+ * template leaves it out, since RALPH cannot detect completion without it.
+ * `executionRoot` is the folder the agent works in when it is not the
+ * workspace folder itself (a git worktree in parallel mode).
+ */
+export function buildStoryPrompt(
+	story: UserStory,
+	workspaceRoot: string,
+	options: { completionSignal: string[]; contextMaxChars: number; previousFailure?: string; executionRoot?: string }
+): string {
+	const prd = parsePrd(workspaceRoot);
+	const executionRoot = options.executionRoot ?? workspaceRoot;
+	const { completedStories, storyFiles } = buildStoryContext(story, workspaceRoot, prd, options.contextMaxChars, executionRoot);
+	const template = loadTemplate(workspaceRoot, 'story', DEFAULT_STORY_TEMPLATE);
+	const completionSignal = options.completionSignal.join('\n');
+
+	const prompt = renderTemplate(template, {
+		storyId: story.id,
+		storyTitle: story.title,
+		storyDescription: story.description,
+		priority: String(story.priority),
+		acceptanceCriteria: story.acceptanceCriteria.map((ac, i) => `  ${i + 1}. ${ac}`).join('\n'),
+		workspaceRoot: executionRoot,
+		prdPath: toWorkspaceRelative(workspaceRoot, getPrdPath(workspaceRoot)),
+		statusFile: RalphStateManager.getTaskStatusPath(executionRoot, story.id).replace(/\\/g, '/'),
+		project: prd?.project ?? '',
+		prdDescription: prd?.description ?? '',
+		instructions: buildInstructionsBlock(prd),
+		completedStories,
+		storyFiles,
+		previousFailure: options.previousFailure ? [
+			'⚠️ A previous attempt at this story failed with the following error:',
+			options.previousFailure,
+			'Inspect the current state of the workspace, keep whatever already works, and address the cause of this failure.',
+			'',
+			'',
+		].join('\n') : '',
+		completionSignal,
+	});
+
+	return template.includes('${completionSignal}') ? prompt : `${prompt.trimEnd()}\n\n${completionSignal}`;
+}
+
+/** The default completion protocol: a TaskResult written to the status file. */
+export function buildStatusFileSignalLines(taskId: string, workspaceRoot: string): string[] {
+	return [
+		'━━━ TASK COMPLETION SIGNAL (REQUIRED) ━━━',
+		'When you stop working on this task, write a single JSON object (nothing else) to the file:',
+		RalphStateManager.getTaskStatusPath(workspaceRoot, taskId).replace(/\\/g, '/'),
+		'',
+		'  { "status": "completed", "summary": "<2–5 sentences: what changed and notable decisions>", "filesChanged": ["<relative paths>"] }',
+		'',
+		'If you cannot complete the task, use "status": "failed" (you tried and it did not work) or "blocked" (something outside your control prevents it), and explain why in "reason".',
+		'If you need a decision from the user before you can continue, use "status": "needs-input" and put the question in "reason" — you will receive the answer in a follow-up message.',
+		'This is how RALPH knows the task is done and can move to the next step.',
+		'Do NOT skip this step — without it RALPH will time out waiting.',
+	];
+}
+
+// ── Shell Agent ─────────────────────────────────────────────────────────────
+// Runs a command-line agent for a story: the prompt is written to its stdin
+// (and to .ralph/logs/<id>.prompt.md), its output is appended to
+// .ralph/logs/<id>.md, and the story is complete when it exits with code 0.
+
+export const SHELL_COMPLETION_LINES = [
+	'━━━ TASK COMPLETION ━━━',
+	'RALPH treats the end of this process as the end of the task: exit with code 0 once ALL work is complete, or with a non-zero code if it cannot be completed.',
+];
+
+export function getStoryLogPath(workspaceRoot: string, taskId: string): string {
+	return path.join(RalphStateManager.getRalphDir(workspaceRoot), 'logs', `${taskId}.md`);
+}
+
+export function appendStoryLog(logPath: string, text: string): void {
+	fs.mkdirSync(path.dirname(logPath), { recursive: true });
+	fs.appendFileSync(logPath, text, 'utf-8');
+}
+
+/** Run `command` as the agent for a story. Throws if it fails or times out. */
+export async function runShellAgent(options: {
+	command: string;
+	prompt: string;
+	storyId: string;
+	workspaceRoot: string;
+	timeoutMs: number;
+	signal?: AbortSignal;
+}): Promise<void> {
+	const { command, prompt, storyId, workspaceRoot } = options;
+	const logPath = getStoryLogPath(workspaceRoot, storyId);
+	const promptPath = logPath.replace(/\.md$/, '.prompt.md');
+	appendStoryLog(logPath, `\n## ${new Date().toISOString()} — \`${command}\`\n\n`);
+	fs.writeFileSync(promptPath, prompt, 'utf-8');
+	log(`  $ ${command}  (output: ${toWorkspaceRelative(workspaceRoot, logPath)})`);
+
+	const result = await runShellCommand(command, workspaceRoot, options.timeoutMs, {
+		input: prompt,
+		env: {
+			RALPH_STORY_ID: storyId,
+			RALPH_PROMPT_FILE: promptPath,
+			RALPH_STATUS_FILE: RalphStateManager.getTaskStatusPath(workspaceRoot, storyId),
+			RALPH_WORKSPACE_ROOT: workspaceRoot,
+		},
+		onOutput: chunk => appendStoryLog(logPath, chunk),
+		signal: options.signal,
+	});
+	if (result.timedOut) {
+		throw new Error(`\`${command}\` timed out on task ${storyId}`);
+	}
+	if (result.exitCode !== 0) {
+		throw new Error(`\`${command}\` exited with code ${result.exitCode}:\n${tailLines(result.output, VERIFY_OUTPUT_TAIL_LINES)}`);
+	}
+}
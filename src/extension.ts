@@ -1,6 +1,24 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as cp from 'child_process';
+import * as crypto from 'crypto';
+import type { API as GitAPI, GitExtension, Repository } from './git';
+import type {
+	PrdFile, PrdValidationResult, ProgressAttempt, ProgressEntry, ProgressStore, RunLockResult,
+	RunState, StoryAttempts, TaskResult, UserStory,
+} from './core';
+import {
+	DEFAULT_PRD_TEMPLATE, DEFAULT_RUN_LOCK_STALE_MS, PRD_FILENAME, PROGRESS_FILENAME, RALPH_DIR,
+	RUN_LOCK_HEARTBEAT_MS, RalphStateManager, SHELL_COMPLETION_LINES, VERIFY_OUTPUT_TAIL_LINES,
+	appendStoryLog, buildInstructionsBlock, buildStatusFileSignalLines, buildStoryPrompt,
+	createRunLockOwner, describeRunLock, exportLegacyProgress, findNextPendingStory,
+	formatPrdProblem, getPrdPath, getProgressPath, getResolvedIds, getStoryAttempts, getStoryHistory,
+	getStoryLogPath, getStoryProgress, getStoryTimeout, getVerifyCommands, isGlobPattern, isRunLockStale,
+	loadTemplate, locatePrdProblems, parsePrd, readProgress, readProgressStore, recordFailedAttempt,
+	removeProgressEntry, renderTemplate, resetStoryState, runShellAgent, runShellCommand, setCoreHost, tailLines, toWorkspaceRelative,
+	validatePrdText, writeProgressEntry,
+} from './core';
 
 // ────────────────────────────────────────────────────────────────────────────
 // RALPH Runner — Autonomous Task Runner for VS Code
@@ -9,8 +27,8 @@ import * as path from 'path';
 // Loops autonomously (up to MAX_AUTONOMOUS_LOOPS) injecting Copilot chat
 // tasks for each user story. Fully resumable.
 //
-// Task execution state is persisted in the .ralph directory:
-//   .ralph/task-<id>-status  →  "inprogress" | "completed"
+// Task execution state is persisted in the .ralph directory (configurable):
+//   .ralph/task-<id>-status  →  "inprogress" | "completed" | TaskResult JSON
 // This provides a reliable, crash-safe lock that prevents overlapping tasks.
 // ────────────────────────────────────────────────────────────────────────────
 
@@ -20,296 +38,343 @@ function getConfig() {
 	const cfg = vscode.workspace.getConfiguration('ralph-runner');
 	return {
 		MAX_AUTONOMOUS_LOOPS: cfg.get<number>('maxAutonomousLoops', 2),
+		RUN_UNTIL_DONE: cfg.get<boolean>('runUntilDone', false),
+		MAX_RUN_DURATION_MS: cfg.get<number>('maxRunDurationMs', 0),
+		MAX_CONSECUTIVE_FAILURES: cfg.get<number>('maxConsecutiveFailures', 0),
 		LOOP_DELAY_MS: cfg.get<number>('loopDelayMs', 3000),
 		COPILOT_RESPONSE_POLL_MS: cfg.get<number>('copilotResponsePollMs', 5000),
 		COPILOT_TIMEOUT_MS: cfg.get<number>('copilotTimeoutMs', 600000),
 		COPILOT_MIN_WAIT_MS: cfg.get<number>('copilotMinWaitMs', 15000),
+		MAX_ATTEMPTS_PER_STORY: cfg.get<number>('maxAttemptsPerStory', 3),
+		RETRY_BACKOFF_MS: cfg.get<number>('retryBackoffMs', 30000),
+		RETRY_INCLUDE_FAILURE_REASON: cfg.get<boolean>('retryIncludeFailureReason', true),
+		VERIFY_TIMEOUT_MS: cfg.get<number>('verifyTimeoutMs', 600000),
+		VERIFY_FIX_ATTEMPTS: cfg.get<number>('verifyFixAttempts', 0),
+		GIT_MANAGE_BRANCH: cfg.get<boolean>('git.manageBranch', true),
+		GIT_COMMIT_PER_STORY: cfg.get<boolean>('git.commitPerStory', false),
+		GIT_COMMIT_MESSAGE: cfg.get<string>('git.commitMessage', '${storyId}: ${storyTitle}'),
+		GIT_CHECKPOINTS: cfg.get<boolean>('git.checkpoints', true),
+		GIT_ROLLBACK_ON_FAILURE: cfg.get<boolean>('git.rollbackOnFailure', false),
+		REVIEW_MODE: cfg.get<'off' | 'flagged' | 'all'>('review.mode', 'flagged'),
+		CONTEXT_MAX_CHARS: cfg.get<number>('contextMaxChars', 32000),
+		EXECUTOR: cfg.get<string>('executor', 'chatPanel'),
+		SHELL_EXECUTOR_COMMAND: cfg.get<string>('shellExecutor.command', ''),
+		LANGUAGE_MODEL: cfg.get<string>('languageModel', ''),
+		RUN_HISTORY_MAX_RUNS: cfg.get<number>('runHistory.maxRuns', 20),
+		PARALLEL_ENABLED: cfg.get<boolean>('parallel.enabled', false),
+		PARALLEL_CONCURRENCY: cfg.get<number>('parallel.concurrency', 3),
+		RUN_LOCK_STALE_MS: cfg.get<number>('runLock.staleAfterMs', DEFAULT_RUN_LOCK_STALE_MS),
+	};
+}
+
+/**
+ * File locations for a workspace folder. Resource-scoped, so each folder of a
+ * multi-root workspace can use its own layout. Paths are relative to the
+ * folder; `${prdName}` expands to the active PRD's file name without extension.
+ */
+function getLocationConfig(workspaceRoot: string) {
+	const cfg = vscode.workspace.getConfiguration('ralph-runner', vscode.Uri.file(workspaceRoot));
+	return {
+		PRD_PATH: cfg.get<string>('prdPath', PRD_FILENAME),
+		PROGRESS_FILE_PATH: cfg.get<string>('progressFilePath', PROGRESS_FILENAME),
+		STATE_DIRECTORY: cfg.get<string>('stateDirectory', RALPH_DIR),
+		TEMPLATES_DIRECTORY: cfg.get<string>('templatesDirectory', `${RALPH_DIR}/templates`),
 	};
 }
 
 // ── Types ───────────────────────────────────────────────────────────────────
 
-interface PrdFile {
-	project: string;
-	branchName: string;
-	description: string;
-	userStories: UserStory[];
+/** A prompt handed to an executor: one story, or a follow-up fix for it. */
+export interface ExecutorRequest {
+	storyId: string;
+	prompt: string;
+	workspaceRoot: string;
+	statusFile: string; // .ralph/task-<id>-status for executors that signal through it
+	timeoutMs: number;  // the story's timeoutMs, else copilotTimeoutMs
 }
 
-interface UserStory {
-	id: string;           // e.g. "US-001"
-	title: string;
-	description: string;
-	acceptanceCriteria: string[];
-	priority: number;
+/** What an executor reports back; recorded on the story's progress attempt. */
+export interface ExecutorResult {
+	model?: string;
+	summary?: string;        // what was done, passed on to later stories
+	filesChanged?: string[];
 }
 
-// ── Filesystem Task State Manager ────────────────────────────────────────────
-// Manages .ralph/task-<id>-status files to provide a durable, process-safe
-// execution lock.  File content is either "inprogress" or "completed".
-
-const RALPH_DIR = '.ralph';
-const PRD_FILENAME = 'prd.json';
-const PROGRESS_FILENAME = 'progress.txt';
-
-class RalphStateManager {
-
-	/** Absolute path to the .ralph directory for the workspace. */
-	static getRalphDir(workspaceRoot: string): string {
-		return path.join(workspaceRoot, RALPH_DIR);
-	}
-
-	/** Absolute path to the status file for a given task id. */
-	static getTaskStatusPath(workspaceRoot: string, taskId: string): string {
-		return path.join(RalphStateManager.getRalphDir(workspaceRoot), `task-${taskId}-status`);
-	}
-
-	/**
-	 * Ensure the .ralph directory exists.  Safe to call multiple times.
-	 */
-	static ensureDir(workspaceRoot: string): void {
-		const dir = RalphStateManager.getRalphDir(workspaceRoot);
-		if (!fs.existsSync(dir)) {
-			fs.mkdirSync(dir, { recursive: true });
-		}
-	}
-
-	/**
-	 * Write "inprogress" for the given task.
-	 * Creates the .ralph directory if it does not yet exist.
-	 * Overwrites any previous state for this task id.
-	 */
-	static setInProgress(workspaceRoot: string, taskId: string): void {
-		RalphStateManager.ensureDir(workspaceRoot);
-		fs.writeFileSync(
-			RalphStateManager.getTaskStatusPath(workspaceRoot, taskId),
-			'inprogress',
-			{ encoding: 'utf-8', flag: 'w' }
-		);
-	}
-
+/**
+ * Runs prompts for RALPH. `execute` resolves once the work is complete and
+ * rejects if it failed; it should stop promptly when `token` is cancelled.
+ * `completionInstructions` replaces the default "write completed to the
+ * status file" section at the end of every prompt.
+ */
+export interface StoryExecutor {
+	readonly id: string;
+	readonly label?: string;
+	execute(request: ExecutorRequest, token: vscode.CancellationToken): Promise<ExecutorResult | void>;
 	/**
-	 * Write "completed" for the given task.
-	 * Safe to call even if the file does not already exist.
+	 * Re-attach to a task that was in flight when the window was reloaded.
+	 * Executors without it run the story again from the start.
 	 */
-	static setCompleted(workspaceRoot: string, taskId: string): void {
-		RalphStateManager.ensureDir(workspaceRoot);
-		fs.writeFileSync(
-			RalphStateManager.getTaskStatusPath(workspaceRoot, taskId),
-			'completed',
-			{ encoding: 'utf-8', flag: 'w' }
-		);
-	}
-
+	resume?(request: Omit<ExecutorRequest, 'prompt'>, token: vscode.CancellationToken): Promise<ExecutorResult | void>;
+	completionInstructions?(request: Omit<ExecutorRequest, 'prompt'>): string[];
 	/**
-	 * Read the current task state from disk.
-	 * Returns "inprogress" | "completed" | "none" (file absent or unreadable).
+	 * Set if several stories may run at once, each in its own folder
+	 * (parallel.enabled). Other executors run their stories one at a time.
 	 */
-	static getTaskStatus(workspaceRoot: string, taskId: string): 'inprogress' | 'completed' | 'none' {
-		const filePath = RalphStateManager.getTaskStatusPath(workspaceRoot, taskId);
-		try {
-			const content = fs.readFileSync(filePath, 'utf-8').trim();
-			if (content === 'inprogress' || content === 'completed') { return content; }
-		} catch { /* file missing or unreadable */ }
-		return 'none';
-	}
+	readonly parallel?: boolean;
+}
 
-	/**
-	 * Returns the id of the first task whose status file contains "inprogress",
-	 * or null if no task is currently active.
-	 */
-	static getInProgressTaskId(workspaceRoot: string): string | null {
-		const dir = RalphStateManager.getRalphDir(workspaceRoot);
-		if (!fs.existsSync(dir)) { return null; }
+/** Returned from activate(); other extensions reach it via `extension.exports`. */
+export interface RalphRunnerApi {
+	registerExecutor(executor: StoryExecutor): vscode.Disposable;
+}
 
-		let entries: string[];
-		try {
-			entries = fs.readdirSync(dir);
-		} catch {
-			return null;
-		}
+// ── PRD File Operations ─────────────────────────────────────────────────────
+// The PRD location comes from the `prdPath` setting, which may be a plain path
+// or a glob matching several plans. Glob matches are discovered asynchronously
+// and cached per folder; `RALPH: Select PRD` stores the active plan per folder
+// in workspace state. findActivePrdPath() is installed as the core host's
+// getPrdPath(), through which everything else resolves the PRD.
 
-		for (const entry of entries) {
-			const match = entry.match(/^task-(.+)-status$/);
-			if (!match) { continue; }
-			const taskId = match[1];
-			if (RalphStateManager.getTaskStatus(workspaceRoot, taskId) === 'inprogress') {
-				return taskId;
-			}
-		}
-		return null;
-	}
+const prdCandidates = new Map<string, string[]>(); // workspace root → absolute PRD paths
+const ACTIVE_PRD_KEY = 'ralph-runner.activePrd';
 
-	/** True if any task status file currently contains "inprogress". */
-	static isAnyInProgress(workspaceRoot: string): boolean {
-		return RalphStateManager.getInProgressTaskId(workspaceRoot) !== null;
+/**
+ * Re-discover the PRD files matching the `prdPath` setting in a folder.
+ * Returns absolute paths, sorted.
+ */
+async function refreshPrdCandidates(workspaceRoot: string): Promise<string[]> {
+	const { PRD_PATH } = getLocationConfig(workspaceRoot);
+	let files: string[];
+	if (isGlobPattern(PRD_PATH)) {
+		const uris = await vscode.workspace.findFiles(
+			new vscode.RelativePattern(workspaceRoot, PRD_PATH),
+			'**/node_modules/**'
+		);
+		files = uris.map(u => u.fsPath).sort();
+	} else {
+		const absolute = path.resolve(workspaceRoot, PRD_PATH);
+		files = fs.existsSync(absolute) ? [absolute] : [];
 	}
+	prdCandidates.set(workspaceRoot, files);
+	return files;
+}
 
-	/**
-	 * Reset a stalled inprogress task back to "none" by deleting its file.
-	 * Used during startup recovery when a previous RALPH session crashed.
-	 */
-	static clearStalledTask(workspaceRoot: string, taskId: string): void {
-		const filePath = RalphStateManager.getTaskStatusPath(workspaceRoot, taskId);
-		try {
-			if (fs.existsSync(filePath)) { fs.unlinkSync(filePath); }
-		} catch { /* ignore */ }
+/**
+ * Absolute path of the active PRD for a folder: the plan chosen with
+ * `RALPH: Select PRD` if it still exists, else the first file matching the
+ * `prdPath` setting, else the setting itself (or prd.json for a glob).
+ */
+function findActivePrdPath(workspaceRoot: string): string {
+	const selected = extensionContext?.workspaceState.get<Record<string, string>>(ACTIVE_PRD_KEY)?.[workspaceRoot];
+	if (selected) {
+		const absolute = path.resolve(workspaceRoot, selected);
+		if (fs.existsSync(absolute)) { return absolute; }
 	}
 
-	/**
-	 * Ensure `.ralph/` is present in the workspace's .gitignore.
-	 * Creates .gitignore if it does not exist. Safe to call multiple times.
-	 */
-	static ensureGitignore(workspaceRoot: string): void {
-		const gitignorePath = path.join(workspaceRoot, '.gitignore');
-		const entriesToIgnore = ['.ralph/'];
-
-		try {
-			let content = '';
-			if (fs.existsSync(gitignorePath)) {
-				content = fs.readFileSync(gitignorePath, 'utf-8');
-			}
-
-			const missing: string[] = [];
-			for (const entry of entriesToIgnore) {
-				// Build a regex that matches the entry (with optional trailing slash/backslash)
-				const escaped = entry.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-				const pattern = new RegExp(`^\\s*${escaped}\\s*$`, 'm');
-				if (!pattern.test(content)) {
-					missing.push(entry);
-				}
-			}
+	const candidates = prdCandidates.get(workspaceRoot);
+	if (candidates && candidates.length > 0) { return candidates[0]; }
 
-			if (missing.length === 0) { return; }
+	const { PRD_PATH } = getLocationConfig(workspaceRoot);
+	return path.resolve(workspaceRoot, isGlobPattern(PRD_PATH) ? PRD_FILENAME : PRD_PATH);
+}
 
-			// Append with a leading newline if the file doesn't already end with one
-			const separator = content.length > 0 && !content.endsWith('\n') ? '\n' : '';
-			const block = missing.join('\n');
-			fs.writeFileSync(gitignorePath, `${content}${separator}\n# RALPH Runner task state\n${block}\n`, 'utf-8');
-			log(`  Added to .gitignore: ${missing.join(', ')}`);
-		} catch (e: unknown) {
-			const msg = e instanceof Error ? e.message : String(e);
-			log(`  WARNING: Could not update .gitignore: ${msg}`);
-		}
-	}
+async function setActivePrd(workspaceRoot: string, prdPath: string): Promise<void> {
+	if (!extensionContext) { return; }
+	const current = extensionContext.workspaceState.get<Record<string, string>>(ACTIVE_PRD_KEY) ?? {};
+	await extensionContext.workspaceState.update(ACTIVE_PRD_KEY, {
+		...current,
+		[workspaceRoot]: toWorkspaceRelative(workspaceRoot, prdPath)
+	});
 }
 
-// ── PRD File Operations ─────────────────────────────────────────────────────
+// ── PRD Diagnostics ─────────────────────────────────────────────────────────
+// Problems found by validatePrdText (core.ts) are published to the Problems
+// panel, anchored at the offending JSON value.
 
-function getPrdPath(workspaceRoot: string): string {
-	return path.join(workspaceRoot, PRD_FILENAME);
+function offsetToPosition(text: string, offset: number): vscode.Position {
+	const before = text.slice(0, Math.min(offset, text.length));
+	const lines = before.split('\n');
+	return new vscode.Position(lines.length - 1, lines[lines.length - 1].length);
 }
 
-function parsePrd(workspaceRoot: string): PrdFile | null {
+/**
+ * Reads and validates prd.json, publishing any problems to the Problems panel.
+ * Returns the validation result (problems are empty when the file is valid).
+ */
+function validatePrdFile(workspaceRoot: string): PrdValidationResult {
 	const prdPath = getPrdPath(workspaceRoot);
+	const uri = vscode.Uri.file(prdPath);
+
+	let text: string;
 	try {
-		const content = fs.readFileSync(prdPath, 'utf-8');
-		return JSON.parse(content) as PrdFile;
+		text = fs.readFileSync(prdPath, 'utf-8');
 	} catch (e: unknown) {
+		prdDiagnostics?.delete(uri);
 		const msg = e instanceof Error ? e.message : String(e);
-		log(`ERROR: Failed to read/parse prd.json: ${msg}`);
-		return null;
+		return { prd: null, problems: [{ message: `Could not read prd.json: ${msg}`, path: [] }] };
+	}
+
+	const result = validatePrdText(text);
+	if (prdDiagnostics) {
+		const ranges = locatePrdProblems(text, result.problems);
+		const diagnostics = result.problems.map((problem, index) => {
+			const [start, end] = ranges[index];
+			const range = new vscode.Range(offsetToPosition(text, start), offsetToPosition(text, end));
+			const diagnostic = new vscode.Diagnostic(range, problem.message, vscode.DiagnosticSeverity.Error);
+			diagnostic.source = 'RALPH';
+			return diagnostic;
+		});
+		prdDiagnostics.set(uri, diagnostics);
 	}
+	return result;
 }
 
-// ── Progress File Operations ─────────────────────────────────────────────────
-// progress.txt tracks which user stories have been completed or failed.
-// Each line is: <storyId> | <status> | <timestamp> | <notes>
-// e.g.: US-001 | done | 2026-02-24 12:00:00 | Completed successfully
+// ── Run History ─────────────────────────────────────────────────────────────
+// Every run gets a directory under .ralph/runs/<timestamp>/ holding run.log
+// (everything written to the output channel during the run) and one
+// transcript per story attempt. Old runs are pruned to runHistory.maxRuns.
 
-interface ProgressEntry {
-	id: string;
-	status: 'done' | 'failed';
-	timestamp: string;
-	notes: string;
-}
+const RUN_LOG_FILE = 'run.log';
 
-function getProgressPath(workspaceRoot: string): string {
-	return path.join(workspaceRoot, PROGRESS_FILENAME);
+function getRunsDir(workspaceRoot: string): string {
+	return path.join(RalphStateManager.getRalphDir(workspaceRoot), 'runs');
 }
 
-function readProgress(workspaceRoot: string): ProgressEntry[] {
-	const progressPath = getProgressPath(workspaceRoot);
-	if (!fs.existsSync(progressPath)) { return []; }
-
+/** Directory names of the folder's recorded runs, newest first. */
+function listRunDirs(workspaceRoot: string): string[] {
 	try {
-		const content = fs.readFileSync(progressPath, 'utf-8');
-		const entries: ProgressEntry[] = [];
-
-		for (const line of content.split('\n')) {
-			const trimmed = line.trim();
-			if (!trimmed || trimmed.startsWith('#')) { continue; }
-
-			const parts = trimmed.split('|').map(p => p.trim());
-			if (parts.length >= 2) {
-				entries.push({
-					id: parts[0],
-					status: parts[1] as 'done' | 'failed',
-					timestamp: parts[2] || '',
-					notes: parts[3] || '',
-				});
-			}
-		}
-
-		return entries;
+		return fs.readdirSync(getRunsDir(workspaceRoot), { withFileTypes: true })
+			.filter(entry => entry.isDirectory())
+			.map(entry => entry.name)
+			.sort()
+			.reverse();
 	} catch {
 		return [];
 	}
 }
 
-function writeProgressEntry(workspaceRoot: string, id: string, status: 'done' | 'failed', notes: string): void {
-	const progressPath = getProgressPath(workspaceRoot);
-	const timestamp = new Date().toISOString().replace('T', ' ').slice(0, 19);
-	const line = `${id} | ${status} | ${timestamp} | ${notes}`;
+/**
+ * Start recording a run: creates .ralph/runs/<timestamp>/ (or re-opens
+ * `existing` when a run is resumed), points the log tee at its run.log and
+ * prunes old runs. Returns the directory name.
+ */
+function beginRunHistory(workspaceRoot: string, existing?: string): string {
+	const name = existing && fs.existsSync(path.join(getRunsDir(workspaceRoot), existing))
+		? existing
+		: new Date().toISOString().replace(/[:.]/g, '-');
+	const dir = path.join(getRunsDir(workspaceRoot), name);
+	fs.mkdirSync(dir, { recursive: true });
+	activeRunLog = path.join(dir, RUN_LOG_FILE);
+	pruneRunHistory(workspaceRoot, name);
+	return name;
+}
 
-	let content = '';
-	if (fs.existsSync(progressPath)) {
-		content = fs.readFileSync(progressPath, 'utf-8');
+function endRunHistory(): void {
+	activeRunLog = null;
+	activeTranscript = null;
+}
 
-		// Remove any existing entry for this id so we don't duplicate
-		const lines = content.split('\n').filter(l => {
-			const trimmed = l.trim();
-			if (!trimmed || trimmed.startsWith('#')) { return true; }
-			const entryId = trimmed.split('|')[0].trim();
-			return entryId !== id;
-		});
-		content = lines.join('\n');
-	} else {
-		content = '# RALPH Runner Progress\n# Format: <storyId> | <status> | <timestamp> | <notes>\n';
-	}
+/**
+ * Start the transcript of one story attempt in the active run. Everything
+ * logged until endStoryTranscript() is also written to it.
+ */
+function beginStoryTranscript(story: UserStory, startedAt: Date): void {
+	if (!activeRunLog) { return; }
+	const dir = path.dirname(activeRunLog);
+	let attempt = 1;
+	while (fs.existsSync(path.join(dir, `${story.id}-${attempt}.md`))) { attempt++; }
+	activeTranscript = path.join(dir, `${story.id}-${attempt}.md`);
+	appendTranscript(`# ${story.id}: ${story.title} — attempt ${attempt}\n\nStarted: ${startedAt.toISOString()}\n\n`);
+}
 
-	if (!content.endsWith('\n')) { content += '\n'; }
-	content += line + '\n';
+function endStoryTranscript(startedAt: Date): void {
+	if (!activeTranscript) { return; }
+	const seconds = Math.round((Date.now() - startedAt.getTime()) / 1000);
+	appendTranscript(`\nFinished: ${new Date().toISOString()} (${seconds}s)\n`);
+	activeTranscript = null;
+}
 
-	fs.writeFileSync(progressPath, content, 'utf-8');
+/** Append raw text (a prompt, command output) to the active story transcript. */
+function appendTranscript(text: string): void {
+	if (!activeTranscript) { return; }
+	try {
+		fs.appendFileSync(activeTranscript, text, 'utf-8');
+	} catch { /* history is best-effort */ }
 }
 
-function removeProgressEntry(workspaceRoot: string, id: string): void {
-	const progressPath = getProgressPath(workspaceRoot);
-	if (!fs.existsSync(progressPath)) { return; }
+/** Record a prompt sent to an executor in the active story transcript. */
+function appendTranscriptBlock(heading: string, text: string): void {
+	appendTranscript(`\n## ${heading}\n\n\`\`\`\`\n${text}\n\`\`\`\`\n\n`);
+}
 
-	const content = fs.readFileSync(progressPath, 'utf-8');
-	const lines = content.split('\n').filter(l => {
-		const trimmed = l.trim();
-		if (!trimmed || trimmed.startsWith('#')) { return true; }
-		const entryId = trimmed.split('|')[0].trim();
-		return entryId !== id;
-	});
-	fs.writeFileSync(progressPath, lines.join('\n') + '\n', 'utf-8');
+/** Remove the oldest runs beyond runHistory.maxRuns, never touching `keep`. */
+function pruneRunHistory(workspaceRoot: string, keep: string): void {
+	const maxRuns = getConfig().RUN_HISTORY_MAX_RUNS;
+	if (maxRuns <= 0) { return; }
+	const stale = listRunDirs(workspaceRoot).filter(name => name !== keep).slice(Math.max(maxRuns - 1, 0));
+	for (const name of stale) {
+		try {
+			fs.rmSync(path.join(getRunsDir(workspaceRoot), name), { recursive: true, force: true });
+		} catch (e: unknown) {
+			log(`WARNING: Could not prune run ${name}: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
 }
 
-function getStoryProgress(workspaceRoot: string, storyId: string): ProgressEntry | undefined {
-	const entries = readProgress(workspaceRoot);
-	return entries.find(e => e.id === storyId);
+/** The start time encoded in a run directory name. */
+function parseRunName(name: string): Date | undefined {
+	const iso = name.replace(/^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, '$1:$2:$3.$4Z');
+	const date = new Date(iso);
+	return isNaN(date.getTime()) ? undefined : date;
 }
 
-function findNextPendingStory(prd: PrdFile, workspaceRoot: string): UserStory | null {
-	const progress = readProgress(workspaceRoot);
-	const doneIds = new Set(progress.filter(e => e.status === 'done').map(e => e.id));
+/** Turns a run directory name back into a readable local date and time. */
+function formatRunName(name: string): string {
+	return parseRunName(name)?.toLocaleString() ?? name;
+}
+
+/**
+ * Command handler for ralph-runner.showHistory: pick a past run, then open
+ * its run log or one of its story transcripts.
+ */
+async function showHistory(): Promise<void> {
+	type RunPick = vscode.QuickPickItem & { root: string; name: string };
+	const runs: RunPick[] = getWorkspaceRoots().flatMap(root => listRunDirs(root).map(name => {
+		const transcripts = fs.readdirSync(path.join(getRunsDir(root), name)).filter(f => f.endsWith('.md'));
+		const storyIds = [...new Set(transcripts.map(f => f.replace(/-\d+\.md$/, '')))];
+		return {
+			root,
+			name,
+			label: `$(history) ${formatRunName(name)}`,
+			description: isMultiRoot() ? getFolderName(root) : undefined,
+			detail: storyIds.length > 0 ? `Stories: ${storyIds.join(', ')}` : 'No stories executed',
+		};
+	})).sort((a, b) => b.name.localeCompare(a.name));
 
-	// Sort by priority (ascending — lower number = higher priority)
-	const sorted = [...prd.userStories].sort((a, b) => a.priority - b.priority);
-	return sorted.find(s => !doneIds.has(s.id)) || null;
+	if (runs.length === 0) {
+		vscode.window.showInformationMessage('RALPH: No run history yet.');
+		return;
+	}
+
+	const run = await vscode.window.showQuickPick(runs, { placeHolder: 'Select a run' });
+	if (!run) { return; }
+
+	const dir = path.join(getRunsDir(run.root), run.name);
+	const files = fs.readdirSync(dir).filter(f => f.endsWith('.md')).sort();
+	const items: (vscode.QuickPickItem & { file: string })[] = [
+		{ label: '$(output) Run log', description: RUN_LOG_FILE, file: RUN_LOG_FILE },
+		...files.map(f => ({ label: `$(file-text) ${f.replace(/\.md$/, '')}`, description: 'Story transcript', file: f })),
+	];
+	const pick = await vscode.window.showQuickPick(items, { placeHolder: `Run of ${formatRunName(run.name)} — select a log to open` });
+	if (!pick) { return; }
+
+	const filePath = path.join(dir, pick.file);
+	if (!fs.existsSync(filePath)) {
+		vscode.window.showInformationMessage(`RALPH: ${pick.file} was not written for this run.`);
+		return;
+	}
+	const doc = await vscode.workspace.openTextDocument(filePath);
+	await vscode.window.showTextDocument(doc, { preview: true });
 }
 
 // ── Globals ─────────────────────────────────────────────────────────────────
@@ -317,12 +382,27 @@ function findNextPendingStory(prd: PrdFile, workspaceRoot: string): UserStory |
 let outputChannel: vscode.OutputChannel;
 let cancelToken: vscode.CancellationTokenSource | null = null;
 let isRunning = false;
+let activeRoot: string | null = null; // workspace folder the current run is executing in
+let pauseToken: vscode.CancellationTokenSource | null = null; // fires when a pause is requested
+let activeRunLog: string | null = null; // run.log of the run being recorded
+let activeTranscript: string | null = null; // transcript of the story attempt being recorded
 let statusBarItem: vscode.StatusBarItem;
+let prdDiagnostics: vscode.DiagnosticCollection | undefined;
+let extensionContext: vscode.ExtensionContext | undefined;
 
 // ── Activation ──────────────────────────────────────────────────────────────
 
-export function activate(context: vscode.ExtensionContext) {
+export function activate(context: vscode.ExtensionContext): RalphRunnerApi {
+	extensionContext = context;
 	outputChannel = vscode.window.createOutputChannel('RALPH Runner');
+	setCoreHost({
+		getPrdPath: findActivePrdPath,
+		getLocations: root => {
+			const { PROGRESS_FILE_PATH, STATE_DIRECTORY, TEMPLATES_DIRECTORY } = getLocationConfig(root);
+			return { progressFilePath: PROGRESS_FILE_PATH, stateDirectory: STATE_DIRECTORY, templatesDirectory: TEMPLATES_DIRECTORY };
+		},
+		log,
+	});
 
 	// ── Status bar icon ────────────────────────────────────────────────────
 	statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
@@ -335,81 +415,418 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(
 		vscode.commands.registerCommand('ralph-runner.start', () => startRalph()),
 		vscode.commands.registerCommand('ralph-runner.stop', () => stopRalph()),
+		vscode.commands.registerCommand('ralph-runner.pause', () => pauseRalph()),
+		vscode.commands.registerCommand('ralph-runner.resume', () => resumeRalph()),
 		vscode.commands.registerCommand('ralph-runner.status', () => showStatus()),
 		vscode.commands.registerCommand('ralph-runner.resetStep', () => resetStory()),
 		vscode.commands.registerCommand('ralph-runner.openSettings', () => {
 			vscode.commands.executeCommand('workbench.action.openSettings', 'ralph-runner');
 		}),
 		vscode.commands.registerCommand('ralph-runner.showMenu', () => showCommandMenu()),
-		vscode.commands.registerCommand('ralph-runner.quickStart', () => quickStart())
+		vscode.commands.registerCommand('ralph-runner.quickStart', () => quickStart()),
+		vscode.commands.registerCommand('ralph-runner.exportProgress', () => exportProgress()),
+		vscode.commands.registerCommand('ralph-runner.showHistory', () => showHistory()),
+		vscode.commands.registerCommand('ralph-runner.showDashboard', () => showDashboard()),
+		vscode.commands.registerCommand('ralph-runner.runStory', (arg?: string | StoryTreeNode) => runStory(arg)),
+		vscode.commands.registerCommand('ralph-runner.rollbackStory', (arg?: string | StoryTreeNode) => rollbackStory(arg)),
+		...Object.entries(RALPH_TOOLS).map(([name, tool]) => vscode.lm.registerTool(name, tool))
+	);
+
+	// ── prd.json diagnostics ─────────────────────────────────────────────
+	prdDiagnostics = vscode.languages.createDiagnosticCollection('ralph-runner');
+	context.subscriptions.push(
+		prdDiagnostics,
+		vscode.workspace.onDidSaveTextDocument(doc => {
+			const root = getWorkspaceRoots().find(r => doc.uri.fsPath === getPrdPath(r));
+			if (root) {
+				validatePrdFile(root);
+			}
+		})
+	);
+
+	// ── Story tree view ──────────────────────────────────────────────────
+	const storyTree = new StoryTreeProvider();
+	context.subscriptions.push(
+		vscode.window.registerTreeDataProvider('ralph-runner.stories', storyTree),
+		vscode.commands.registerCommand('ralph-runner.refreshStories', () => storyTree.refresh()),
+		vscode.commands.registerCommand('ralph-runner.resetStoryItem', (node?: StoryTreeNode) => {
+			if (node?.kind === 'story') {
+				resetStoryById(node.root, node.story.id);
+				storyTree.refresh();
+			}
+		}),
+		vscode.commands.registerCommand('ralph-runner.skipStoryItem', async (node?: StoryTreeNode) => {
+			if (node?.kind === 'story') {
+				await skipStory(node.root, node.story.id);
+				storyTree.refresh();
+			}
+		}),
+		vscode.commands.registerCommand('ralph-runner.openStoryPrompt', (node?: StoryTreeNode) => previewStoryPrompt(node))
+	);
+
+	// Refresh the tree and the per-folder status bar summary whenever any
+	// folder's PRD or state changes, or folders are added/removed
+	const onStateChanged = () => {
+		storyTree.refresh();
+		updateStatusBar(isRunning ? 'running' : 'idle');
+	};
+	const revalidateAll = () => {
+		prdDiagnostics?.clear();
+		for (const root of getPrdRoots()) {
+			validatePrdFile(root);
+		}
+	};
+
+	// Watchers follow the configured locations, so they are rebuilt whenever
+	// the settings, the workspace folders or the active PRD change
+	let stateWatchers: vscode.Disposable[] = [];
+	const rebuildStateWatchers = () => {
+		stateWatchers.forEach(d => d.dispose());
+		stateWatchers = [];
+		for (const root of getWorkspaceRoots()) {
+			const { PRD_PATH } = getLocationConfig(root);
+			const prdPath = getPrdPath(root);
+			const progressPath = getProgressPath(root);
+			const patterns = [
+				new vscode.RelativePattern(root, isGlobPattern(PRD_PATH) ? PRD_PATH : toWorkspaceRelative(root, path.resolve(root, PRD_PATH))),
+				new vscode.RelativePattern(path.dirname(prdPath), path.basename(prdPath)),
+				new vscode.RelativePattern(path.dirname(progressPath), path.basename(progressPath)),
+				new vscode.RelativePattern(RalphStateManager.getRalphDir(root), '**'),
+			];
+			patterns.forEach((pattern, index) => {
+				const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+				// PRD creation/deletion changes the glob matches — rediscover them.
+				// The run history (written on every log line) and the parallel-mode
+				// worktrees (edited by agents) are not state.
+				const ignoredDirs = [getRunsDir(root), getWorktreesDir(root)].map(dir => dir + path.sep);
+				const handler = index < 2
+					? () => { refreshPrdCandidates(root).then(onStateChanged); }
+					: (uri: vscode.Uri) => { if (!ignoredDirs.some(dir => uri.fsPath.startsWith(dir))) { onStateChanged(); } };
+				stateWatchers.push(
+					watcher,
+					watcher.onDidCreate(handler),
+					watcher.onDidChange(handler),
+					watcher.onDidDelete(handler)
+				);
+			});
+		}
+	};
+	const reloadLocations = async () => {
+		await Promise.all(getWorkspaceRoots().map(root => refreshPrdCandidates(root)));
+		rebuildStateWatchers();
+		revalidateAll();
+		onStateChanged();
+	};
+
+	context.subscriptions.push(
+		{ dispose: () => stateWatchers.forEach(d => d.dispose()) },
+		vscode.workspace.onDidChangeWorkspaceFolders(() => reloadLocations()),
+		vscode.workspace.onDidChangeConfiguration(e => {
+			if (['prdPath', 'progressFilePath', 'stateDirectory'].some(key => e.affectsConfiguration(`ralph-runner.${key}`))) {
+				reloadLocations();
+			}
+		}),
+		vscode.commands.registerCommand('ralph-runner.selectPrd', async () => {
+			if (await selectPrd()) { await reloadLocations(); }
+		})
 	);
+	updateStatusBar('idle');
+	// The run state of a folder may live next to its active PRD — find the PRDs first
+	reloadLocations().then(offerInterruptedRunResume);
 
 	log('RALPH Runner extension activated.');
+
+	return { registerExecutor };
 }
 
 export function deactivate() {
-	stopRalph();
+	// A run in progress is left in .ralph/run.json and offered for resume on
+	// the next activation, so the window can be reloaded mid-run
+	[...heldLocks].forEach(releaseFolderLock);
 	statusBarItem?.dispose();
 	outputChannel?.dispose();
 }
 
 // ── Core Loop ───────────────────────────────────────────────────────────────
 
+/**
+ * Checks shared by every way of starting a run: prd.json exists and is valid,
+ * .ralph/ is set up, the folder's run lock is free, and any task left
+ * "inprogress" by a crashed session is cleared — except `resumingTaskId`, the
+ * story a resumed run re-attaches to. Returns false if the run must not
+ * start; otherwise the caller holds the run lock and must release it.
+ */
+async function prepareRun(workspaceRoot: string, resumingTaskId?: string): Promise<boolean> {
+	const prdPath = getPrdPath(workspaceRoot);
+	const scope = getFolderPrefix(workspaceRoot);
+	if (!fs.existsSync(prdPath)) {
+		vscode.window.showErrorMessage(`${scope}${toWorkspaceRelative(workspaceRoot, prdPath)} not found.`);
+		return false;
+	}
+
+	const validation = validatePrdFile(workspaceRoot);
+	if (validation.problems.length > 0) {
+		log(`ERROR: ${scope}prd.json has ${validation.problems.length} problem(s):`);
+		for (const problem of validation.problems) {
+			log(`  • ${formatPrdProblem(problem)}`);
+		}
+		const summary = validation.problems.slice(0, 3).map(formatPrdProblem).join('; ');
+		const more = validation.problems.length > 3 ? ` (+${validation.problems.length - 3} more)` : '';
+		const action = await vscode.window.showErrorMessage(
+			`RALPH: ${scope}prd.json is invalid — ${summary}${more}`,
+			'Show Problems', 'Open PRD'
+		);
+		if (action === 'Show Problems') {
+			vscode.commands.executeCommand('workbench.actions.view.problems');
+		} else if (action === 'Open PRD') {
+			const doc = await vscode.workspace.openTextDocument(prdPath);
+			vscode.window.showTextDocument(doc);
+		}
+		return false;
+	}
+
+	// ── Startup: ensure .ralph/ dir exists and is gitignored in the workspace ──
+	RalphStateManager.ensureDir(workspaceRoot);
+	RalphStateManager.ensureGitignore(workspaceRoot);
+
+	// Refuse to run alongside a live run in another window or terminal
+	if (!acquireFolderLock(workspaceRoot)) {
+		return false;
+	}
+
+	// With the lock held, a task still "inprogress" was left by a run that died
+	const stalledTaskIds = RalphStateManager.getInProgressTaskIds(workspaceRoot).filter(id => id !== resumingTaskId);
+	if (stalledTaskIds.length > 0) {
+		stalledTaskIds.forEach(id => RalphStateManager.clearStalledTask(workspaceRoot, id));
+		log(`Cleared stalled inprogress state for task ${stalledTaskIds.join(', ')} from an interrupted run.`);
+	}
+
+	// ── Git: make sure we are on the PRD's branch before the first story ──
+	const prd = parsePrd(workspaceRoot);
+	if (prd && !(await ensurePrdBranch(workspaceRoot, prd))) {
+		releaseFolderLock(workspaceRoot);
+		return false;
+	}
+
+	return true;
+}
+
 async function startRalph(): Promise<void> {
 	if (isRunning) {
 		vscode.window.showWarningMessage('RALPH is already running.');
 		return;
 	}
 
-	const workspaceRoot = getWorkspaceRoot();
-	if (!workspaceRoot) {
-		vscode.window.showErrorMessage('No workspace folder open.');
-		return;
+	const roots = await pickWorkspaceRoots('Select the workspace folder(s) to run RALPH in');
+	if (!roots) { return; }
+
+	const prepared: string[] = [];
+	for (const root of roots) {
+		if (await prepareRun(root)) { prepared.push(root); }
 	}
+	if (prepared.length === 0) { return; }
 
-	const prdPath = getPrdPath(workspaceRoot);
-	if (!fs.existsSync(prdPath)) {
-		vscode.window.showErrorMessage('prd.json not found in workspace root.');
+	// Queue every folder so that a pause or reload can resume the rest
+	prepared.forEach(root => {
+		RalphStateManager.clearRunState(root);
+		RalphStateManager.writeRunState(root, { status: 'running', loopsExecuted: 0 });
+	});
+	await runFolders(prepared);
+}
+
+/**
+ * Run the loop in each folder in turn — Copilot Chat is shared by the
+ * window. Each folder resumes from its persisted run state.
+ */
+async function runFolders(roots: string[]): Promise<void> {
+	isRunning = true;
+	cancelToken = new vscode.CancellationTokenSource();
+	pauseToken = new vscode.CancellationTokenSource();
+	runStartedAt = Date.now();
+	consecutiveFailures = 0;
+	outputChannel.show(true);
+
+	try {
+		let runLimitHit = false;
+		for (const root of roots) {
+			if (!isRunning || cancelToken?.token.isCancellationRequested) { break; }
+			if (pauseToken?.token.isCancellationRequested) {
+				RalphStateManager.writeRunState(root, { status: 'paused' });
+				continue;
+			}
+			if (runLimitHit) {
+				// The budget or the failure breaker ends the whole run
+				RalphStateManager.clearRunState(root);
+				continue;
+			}
+			const historyDir = beginRunHistory(root, RalphStateManager.readRunState(root)?.historyDir);
+			RalphStateManager.writeRunState(root, { historyDir });
+			try {
+				const limitHit = await runLoop(root, RalphStateManager.readRunState(root));
+				runLimitHit = limitHit !== undefined && limitHit.limit !== 'loops';
+			} finally {
+				endRunHistory();
+			}
+		}
+		if (cancelToken?.token.isCancellationRequested) {
+			roots.forEach(root => RalphStateManager.clearRunState(root));
+		}
+	} finally {
+		roots.forEach(releaseFolderLock);
+		isRunning = false;
+		cancelToken?.dispose();
+		cancelToken = null;
+		pauseToken = null;
+		activeRoot = null;
+		updateStatusBar('idle');
+	}
+}
+
+/**
+ * Command handler for ralph-runner.pause: lets the current story finish,
+ * then stops the loop and keeps the run state so it can be resumed.
+ */
+function pauseRalph(): void {
+	if (!isRunning || !pauseToken) {
+		vscode.window.showInformationMessage('RALPH is not running.');
 		return;
 	}
+	if (pauseToken.token.isCancellationRequested) { return; }
+	pauseToken.cancel();
+	log('Pause requested — no new story will start; the current story is allowed to finish.');
+	updateStatusBar('running');
+}
 
-	// ── Startup: ensure .ralph/ dir exists and is gitignored in the workspace ──
-	RalphStateManager.ensureDir(workspaceRoot);
-	RalphStateManager.ensureGitignore(workspaceRoot);
+/**
+ * On activation, a run state still marked "running" whose lock is stale (or
+ * gone) belongs to a window that was reloaded or closed mid-run: mark it
+ * paused and offer to resume it. A live lock means another window or the
+ * CLI is still running the folder.
+ */
+function offerInterruptedRunResume(): void {
+	const staleAfterMs = getConfig().RUN_LOCK_STALE_MS;
+	const interrupted = getWorkspaceRoots().filter(root => {
+		if (RalphStateManager.readRunState(root)?.status !== 'running') { return false; }
+		const lock = RalphStateManager.readRunLock(root);
+		return !lock || isRunLockStale(lock, staleAfterMs);
+	});
+	if (interrupted.length === 0) { return; }
 
-	const stalledTaskId = RalphStateManager.getInProgressTaskId(workspaceRoot);
-	if (stalledTaskId !== null) {
-		const action = await vscode.window.showWarningMessage(
-			`RALPH: Task ${stalledTaskId} was left "inprogress" from a previous interrupted run.`,
-			'Clear & Retry', 'Cancel'
-		);
-		if (action !== 'Clear & Retry') {
-			log(`Startup aborted — stalled task ${stalledTaskId} left untouched.`);
+	interrupted.forEach(root => RalphStateManager.writeRunState(root, { status: 'paused' }));
+	updateStatusBar('idle');
+	log(`Found a run interrupted by a window reload in ${interrupted.map(getFolderName).join(', ')}.`);
+	vscode.window.showInformationMessage(
+		'RALPH: A run was interrupted by a window reload. Resume it?',
+		'Resume', 'Discard'
+	).then(choice => {
+		if (choice === 'Resume') {
+			resumeRalph();
+		} else if (choice === 'Discard') {
+			stopRalph();
+		}
+	});
+}
+
+/**
+ * Command handler for ralph-runner.resume: continues every paused (or
+ * reload-interrupted) run, re-attaching to a story that was still in flight.
+ */
+async function resumeRalph(): Promise<void> {
+	if (isRunning) {
+		if (pauseToken?.token.isCancellationRequested) {
+			// Withdraw a pause that has not taken effect yet
+			pauseToken = new vscode.CancellationTokenSource();
+			log('Pause withdrawn — the run continues.');
+			updateStatusBar('running');
 			return;
 		}
-		RalphStateManager.clearStalledTask(workspaceRoot, stalledTaskId);
-		log(`Cleared stalled inprogress state for task ${stalledTaskId}.`);
+		vscode.window.showWarningMessage('RALPH is already running.');
+		return;
+	}
+
+	const roots = getPrdRoots().filter(root => RalphStateManager.readRunState(root));
+	if (roots.length === 0) {
+		vscode.window.showInformationMessage('RALPH: Nothing to resume — use RALPH: Start.');
+		return;
 	}
 
+	const prepared: string[] = [];
+	for (const root of roots) {
+		if (await prepareRun(root, RalphStateManager.readRunState(root)?.currentStoryId)) { prepared.push(root); }
+	}
+	if (prepared.length === 0) { return; }
+
+	prepared.forEach(root => RalphStateManager.writeRunState(root, { status: 'running' }));
+	await runFolders(prepared);
+}
+
+/**
+ * The autonomous loop for one workspace folder: repeatedly picks the next
+ * pending story and executes it, up to MAX_AUTONOMOUS_LOOPS stories. With a
+ * persisted `runState` it continues that run, first finishing the story that
+ * was in flight. A pause leaves the run state "paused"; otherwise it is
+ * cleared when the loop ends. With parallel.enabled the stories are run by
+ * runParallelLoop instead. Resolves with the run limit that ended the loop.
+ */
+async function runLoop(workspaceRoot: string, runState?: RunState): Promise<RunLimitHit | undefined> {
 	const config = getConfig();
 
-	isRunning = true;
-	cancelToken = new vscode.CancellationTokenSource();
-	outputChannel.show(true);
+	activeRoot = workspaceRoot;
 	log('═══════════════════════════════════════════════════');
-	log('RALPH Runner started — autonomous task runner');
-	log(`Max loops: ${config.MAX_AUTONOMOUS_LOOPS}`);
+	log(runState && (runState.loopsExecuted > 0 || runState.currentStoryId)
+		? 'RALPH Runner resumed — autonomous task runner'
+		: 'RALPH Runner started — autonomous task runner');
+	if (isMultiRoot()) {
+		log(`Workspace folder: ${getFolderName(workspaceRoot)}`);
+	}
+	log(`Max loops: ${config.RUN_UNTIL_DONE ? 'until done' : config.MAX_AUTONOMOUS_LOOPS}`);
+	if (config.MAX_RUN_DURATION_MS > 0) {
+		log(`Run budget: ${formatDuration(config.MAX_RUN_DURATION_MS)} (${formatDuration(Date.now() - runStartedAt)} used)`);
+	}
+	if (config.MAX_CONSECUTIVE_FAILURES > 0) {
+		log(`Stop after ${config.MAX_CONSECUTIVE_FAILURES} consecutive failures`);
+	}
 	log('═══════════════════════════════════════════════════');
 
 	updateStatusBar('running');
 
-	let loopsExecuted = 0;
+	const scope = getFolderPrefix(workspaceRoot);
+	let loopsExecuted = runState?.loopsExecuted ?? 0;
+	let paused = false;
+	let limitHit: RunLimitHit | undefined;
+
+	// Finish the story that was in flight when the run was interrupted
+	const inFlight = runState?.currentStoryId
+		? parsePrd(workspaceRoot)?.userStories.find(s => s.id === runState.currentStoryId)
+		: undefined;
+	if (runState && inFlight) {
+		log(`Re-attaching to story ${inFlight.id}: ${inFlight.title}`);
+		recordRunOutcome(await runStoryAttempt(inFlight, workspaceRoot, getStoryAttempts(workspaceRoot, inFlight.id), true, runState));
+		loopsExecuted++;
+		RalphStateManager.writeRunState(workspaceRoot, { loopsExecuted });
+	}
+
+	// Parallel mode runs stories in git worktrees; without git, run them in turn
+	const parallel = config.PARALLEL_ENABLED && config.PARALLEL_CONCURRENCY > 1;
+	const parallelGit = parallel ? await getRepository(workspaceRoot) : undefined;
+	if (parallel && !parallelGit) {
+		log('Parallel mode needs a git repository — running stories one at a time.');
+	}
+	if (parallelGit) {
+		({ loopsExecuted, paused, limitHit } = await runParallelLoop(workspaceRoot, parallelGit, loopsExecuted));
+	}
 
-	while (loopsExecuted < config.MAX_AUTONOMOUS_LOOPS && isRunning) {
+	while (!parallelGit && isRunning) {
 		if (cancelToken?.token.isCancellationRequested) {
 			log('Cancelled by user.');
 			break;
 		}
+		if (pauseToken?.token.isCancellationRequested) {
+			paused = true;
+			break;
+		}
+		limitHit = checkRunLimits(loopsExecuted);
+		if (limitHit) { break; }
 
 		// Re-read PRD each iteration (it may have been modified externally)
 		const prd = parsePrd(workspaceRoot);
@@ -423,344 +840,2851 @@ async function startRalph(): Promise<void> {
 			break;
 		}
 
-		log(`Loaded ${prd.userStories.length} user stories from prd.json`);
+		log(`Loaded ${prd.userStories.length} user stories from prd.json`);
+
+		const nextStory = findNextPendingStory(prd, workspaceRoot, true);
+
+		if (!nextStory) {
+			reportNoRunnableStories(workspaceRoot, prd);
+			break;
+		}
+
+		logStoryHeader(nextStory, loopsExecuted);
+
+		// Retry bookkeeping: back off before re-running a story that failed before
+		const previousAttempts = getStoryAttempts(workspaceRoot, nextStory.id);
+		if (previousAttempts) {
+			log(`Retrying — attempt ${previousAttempts.failures + 1}/${config.MAX_ATTEMPTS_PER_STORY} (last error: ${previousAttempts.lastError})`);
+			const remaining = getRetryBackoffRemaining(previousAttempts);
+			if (remaining > 0) {
+				log(`  Backing off ${Math.round(remaining / 1000)}s before retrying ${nextStory.id}...`);
+				await sleep(remaining, cancelToken?.token, pauseToken?.token);
+				if (cancelToken?.token.isCancellationRequested || !isRunning) {
+					log('Cancelled by user.');
+					break;
+				}
+				if (pauseToken?.token.isCancellationRequested) {
+					paused = true;
+					break;
+				}
+			}
+		}
+
+		recordRunOutcome(await runStoryAttempt(nextStory, workspaceRoot, previousAttempts, true));
+
+		loopsExecuted++;
+		RalphStateManager.writeRunState(workspaceRoot, { loopsExecuted });
+
+		// Small delay to let VS Code settle
+		await sleep(config.LOOP_DELAY_MS, cancelToken?.token, pauseToken?.token);
+	}
+
+	if (paused) {
+		RalphStateManager.writeRunState(workspaceRoot, { status: 'paused' });
+		log(`RALPH paused after ${loopsExecuted} stor${loopsExecuted === 1 ? 'y' : 'ies'}. Run 'RALPH: Resume' to continue.`);
+		vscode.window.showInformationMessage(`RALPH: ${scope}Paused. Run 'RALPH: Resume' to continue.`);
+		return undefined;
+	}
+	RalphStateManager.clearRunState(workspaceRoot);
+
+	if (limitHit && isRunning) {
+		log(`Run ended — ${limitHit.message} Run 'RALPH: Start' to continue.`);
+		const notify = limitHit.limit === 'loops' ? vscode.window.showInformationMessage : vscode.window.showWarningMessage;
+		notify(`RALPH: ${scope}Run ended — ${limitHit.message}`);
+	}
+	return limitHit;
+}
+
+/** Explain why the loop has nothing left to run: all done, or the rest is stuck. */
+function reportNoRunnableStories(workspaceRoot: string, prd: PrdFile): void {
+	const scope = getFolderPrefix(workspaceRoot);
+	const progress = readProgress(workspaceRoot);
+	const resolvedIds = getResolvedIds(progress);
+	const gaveUpIds = new Set(progress.filter(e => e.status === 'gave-up').map(e => e.id));
+	if (prd.userStories.every(s => resolvedIds.has(s.id))) {
+		log('🎉 All user stories completed!');
+		vscode.window.showInformationMessage(`RALPH: ${scope}All user stories completed!`);
+	} else {
+		const gaveUp = prd.userStories.filter(s => gaveUpIds.has(s.id)).map(s => s.id);
+		log('No runnable stories left — every remaining story has been given up on or is waiting on an unfinished dependency.');
+		if (gaveUp.length > 0) {
+			log(`Given up: ${gaveUp.join(', ')} (use 'RALPH: Reset Story' to retry them)`);
+		}
+		vscode.window.showWarningMessage(`RALPH: ${scope}Remaining stories were given up on or are blocked by unfinished dependencies.`);
+	}
+}
+
+/** Milliseconds left before a failed story may be retried (exponential backoff). */
+function getRetryBackoffRemaining(attempts: StoryAttempts): number {
+	const backoff = getConfig().RETRY_BACKOFF_MS * Math.pow(2, attempts.failures - 1);
+	return backoff - (Date.now() - Date.parse(attempts.lastFailedAt));
+}
+
+function logStoryHeader(story: UserStory, loopsExecuted: number): void {
+	log('');
+	const config = getConfig();
+	log(`──── Loop ${loopsExecuted + 1}${config.RUN_UNTIL_DONE ? '' : `/${config.MAX_AUTONOMOUS_LOOPS}`} ────`);
+	log(`Story ${story.id}: ${story.title}`);
+	log(`Description: ${story.description}`);
+	log(`Priority: ${story.priority}`);
+	if (story.dependsOn && story.dependsOn.length > 0) {
+		log(`Depends on: ${story.dependsOn.join(', ')}`);
+	}
+}
+
+/**
+ * Execute one attempt of a story through the shared lock / progress path:
+ * waits for any active task to clear, marks the story "inprogress", hands it
+ * to Copilot and records the outcome (including retry bookkeeping).
+ * With `resumeFrom` (a run state whose story was in flight), the attempt
+ * re-attaches to the running task instead of starting a new one.
+ * With `persist` (a run from runLoop), the in-flight story is tracked in
+ * the run state so that it can be resumed. Resolves true if the story was
+ * completed, undefined if the run was stopped — a stopped story is not a
+ * failed attempt.
+ */
+async function runStoryAttempt(
+	story: UserStory,
+	workspaceRoot: string,
+	previousAttempts: StoryAttempts | undefined,
+	persist: boolean,
+	resumeFrom?: RunState
+): Promise<boolean | undefined> {
+	const config = getConfig();
+	let checkpoint: string | undefined;
+	let storyStartedAt: Date;
+
+	if (resumeFrom?.currentStoryId === story.id) {
+		checkpoint = resumeFrom.checkpoint;
+		storyStartedAt = resumeFrom.storyStartedAt ? new Date(resumeFrom.storyStartedAt) : new Date();
+	} else {
+		// Guard: ensure no other task is inprogress before queuing this one.
+		await ensureNoActiveTask(workspaceRoot);
+
+		// Snapshot the folder so the story's changes can be rolled back (and
+		// reviewed against)
+		checkpoint = config.GIT_CHECKPOINTS || needsReview(story) ? await createCheckpoint(story, workspaceRoot) : undefined;
+
+		// ── Persist "inprogress" state to .ralph/task-<id>-status ───────
+		storyStartedAt = new Date();
+		RalphStateManager.setInProgress(workspaceRoot, story.id);
+		log(`  Task state written: ${toWorkspaceRelative(workspaceRoot, RalphStateManager.getTaskStatusPath(workspaceRoot, story.id))} = inprogress`);
+		resumeFrom = undefined;
+	}
+	if (persist) {
+		RalphStateManager.writeRunState(workspaceRoot, { currentStoryId: story.id, storyStartedAt: storyStartedAt.toISOString(), checkpoint });
+	}
+	beginStoryTranscript(story, storyStartedAt);
+	if (checkpoint) { appendTranscript(`Checkpoint: ${checkpoint}\n\n`); }
+	let result: ExecutorResult | undefined;
+
+	try {
+		// executeStory returns only after Copilot has reported the task as
+		// completed in .ralph/task-<id>-status; any other outcome throws.
+		const failureReason = previousAttempts && config.RETRY_INCLUDE_FAILURE_REASON
+			? previousAttempts.lastError
+			: undefined;
+		result = resumeFrom
+			? await resumeStory(story, workspaceRoot, failureReason)
+			: await executeStory(story, workspaceRoot, failureReason);
+
+		// Gate completion on the story's verification commands (if any)
+		await verifyStory(story, workspaceRoot);
+
+		// Pause for the user to approve the changes before they are built on
+		if (needsReview(story)) {
+			const changes = await collectStoryChanges(workspaceRoot, checkpoint, result);
+			await reviewStory(story, workspaceRoot, changes, () => verifyStory(story, workspaceRoot));
+		}
+
+		// Optionally commit the story's changes ourselves
+		if (config.GIT_COMMIT_PER_STORY) {
+			await commitStory(story, workspaceRoot);
+		}
+
+		// Safety net: ensure the lock is always cleared on success
+		RalphStateManager.setCompleted(workspaceRoot, story.id);
+
+		// Record completion in the progress store (prd.json is never modified)
+		writeProgressEntry(workspaceRoot, story.id, 'done', 'Completed successfully', {
+			startedAt: storyStartedAt,
+			model: result?.model,
+			checkpoint,
+			summary: result?.summary,
+			filesChanged: result?.filesChanged,
+		});
+
+		log(`✅ Story ${story.id} completed.`);
+		return true;
+	} catch (err: unknown) {
+		if (cancelToken?.token.isCancellationRequested || !isRunning) {
+			// Stopped by the user: the story runs again next time
+			log(`⏹ Story ${story.id} stopped.`);
+			RalphStateManager.clearStalledTask(workspaceRoot, story.id);
+			return undefined;
+		}
+		const errMsg = err instanceof Error ? err.message : String(err);
+		log(`❌ Story ${story.id} failed: ${errMsg}`);
+
+		// Always release the inprogress lock so the loop can advance
+		RalphStateManager.setCompleted(workspaceRoot, story.id);
+
+		// Discard the failed story's partial edits, or the rejected ones
+		let rollbackNote = '';
+		if (checkpoint && (err instanceof ReviewRejectedError || config.GIT_ROLLBACK_ON_FAILURE)) {
+			try {
+				await rollbackToCheckpoint(workspaceRoot, checkpoint);
+				rollbackNote = ' (changes rolled back)';
+			} catch (e: unknown) {
+				log(`  WARNING: Could not roll back ${story.id}: ${e instanceof Error ? e.message : String(e)}`);
+			}
+		}
+
+		recordFailedAttempt(workspaceRoot, story.id, errMsg, config.MAX_ATTEMPTS_PER_STORY, { startedAt: storyStartedAt, model: result?.model, checkpoint }, rollbackNote);
+		return false;
+	} finally {
+		endStoryTranscript(storyStartedAt);
+		if (persist) {
+			RalphStateManager.writeRunState(workspaceRoot, { currentStoryId: undefined, storyStartedAt: undefined, checkpoint: undefined });
+		}
+	}
+}
+
+/**
+ * Command handler for ralph-runner.runStory. Accepts a story id (from
+ * keybindings or other extensions) or a tree node; otherwise asks the user
+ * to pick any story from prd.json, including ones already marked "done".
+ */
+async function runStory(arg?: string | StoryTreeNode): Promise<void> {
+	if (arg !== undefined && typeof arg !== 'string') {
+		if (arg.kind === 'story') { await runSingleStory(arg.root, arg.story.id); }
+		return;
+	}
+
+	if (typeof arg === 'string') {
+		// Find the folder(s) whose prd.json defines this id
+		const candidates = getPrdRoots().filter(root => parsePrd(root)?.userStories.some(s => s.id === arg));
+		if (candidates.length === 0) {
+			vscode.window.showErrorMessage(`RALPH: Story ${arg} not found in any prd.json.`);
+			return;
+		}
+		const workspaceRoot = candidates.length === 1
+			? candidates[0]
+			: await pickFromRoots(candidates, `Story ${arg} exists in several folders — select one`);
+		if (workspaceRoot) { await runSingleStory(workspaceRoot, arg); }
+		return;
+	}
+
+	const workspaceRoot = await pickWorkspaceRoot('Select the workspace folder to run a story in');
+	if (!workspaceRoot) { return; }
+
+	const storyId = await pickStory(workspaceRoot, 'Select a user story to run now');
+	if (!storyId) { return; }
+	await runSingleStory(workspaceRoot, storyId);
+}
+
+/**
+ * Run exactly one story, outside the autonomous loop. The story is executed
+ * even if it is already marked "done" or its dependencies are unmet.
+ */
+async function runSingleStory(workspaceRoot: string, storyId: string): Promise<void> {
+	if (isRunning) {
+		vscode.window.showWarningMessage('RALPH is already running.');
+		return;
+	}
+
+	if (!(await prepareRun(workspaceRoot))) { return; }
+
+	const prd = parsePrd(workspaceRoot);
+	const story = prd?.userStories.find(s => s.id === storyId);
+	if (!story) {
+		releaseFolderLock(workspaceRoot);
+		vscode.window.showErrorMessage(`RALPH: ${getFolderPrefix(workspaceRoot)}Story ${storyId} not found in prd.json.`);
+		return;
+	}
+
+	isRunning = true;
+	activeRoot = workspaceRoot;
+	cancelToken = new vscode.CancellationTokenSource();
+	beginRunHistory(workspaceRoot);
+	outputChannel.show(true);
+	log('═══════════════════════════════════════════════════');
+	log(`RALPH Runner — running single story ${story.id}`);
+	if (isMultiRoot()) {
+		log(`Workspace folder: ${getFolderName(workspaceRoot)}`);
+	}
+	log('═══════════════════════════════════════════════════');
+	log(`Story ${story.id}: ${story.title}`);
+	log(`Description: ${story.description}`);
+	const previous = getStoryProgress(workspaceRoot, story.id);
+	if (previous) {
+		log(`Previously ${previous.status} (${previous.timestamp}) — running again on request.`);
+	}
+	updateStatusBar('running');
+
+	try {
+		await runStoryAttempt(story, workspaceRoot, getStoryAttempts(workspaceRoot, story.id), false);
+	} finally {
+		endRunHistory();
+		releaseFolderLock(workspaceRoot);
+		isRunning = false;
+		activeRoot = null;
+		cancelToken?.dispose();
+		cancelToken = null;
+		updateStatusBar('idle');
+	}
+}
+
+function stopRalph(): void {
+	if (!isRunning) {
+		// Stopping while paused discards the paused run
+		const pausedRoots = getWorkspaceRoots().filter(root => RalphStateManager.readRunState(root));
+		if (pausedRoots.length > 0) {
+			pausedRoots.forEach(root => RalphStateManager.clearRunState(root));
+			log('Paused run discarded by user.');
+			vscode.window.showInformationMessage('RALPH: Paused run discarded.');
+			updateStatusBar('idle');
+			return;
+		}
+		vscode.window.showInformationMessage('RALPH is not running.');
+		return;
+	}
+	cancelToken?.cancel();
+	isRunning = false;
+	log('RALPH Runner stopped by user.');
+	vscode.window.showInformationMessage('RALPH stopped.');
+	updateStatusBar('idle');
+}
+
+// ── Run Limits ──────────────────────────────────────────────────────────────
+// Checked before every story of a run started by startRalph (or resumed):
+//   maxAutonomousLoops     — stories per folder, unless runUntilDone is set
+//   maxRunDurationMs       — wall-clock budget, from when the run (re)started
+//   maxConsecutiveFailures — circuit breaker on failed stories in a row
+// A story that is already running is allowed to finish. The budget and the
+// breaker end the whole run; the loop limit only ends the current folder.
+
+interface RunLimitHit {
+	limit: 'loops' | 'duration' | 'failures';
+	message: string;
+}
+
+let runStartedAt = 0;
+let consecutiveFailures = 0;
+
+/** The limit that keeps the next story from starting, if any. */
+function checkRunLimits(loopsExecuted: number): RunLimitHit | undefined {
+	const config = getConfig();
+	if (config.MAX_CONSECUTIVE_FAILURES > 0 && consecutiveFailures >= config.MAX_CONSECUTIVE_FAILURES) {
+		return {
+			limit: 'failures',
+			message: `${consecutiveFailures} stories failed in a row (maxConsecutiveFailures is ${config.MAX_CONSECUTIVE_FAILURES}).`,
+		};
+	}
+	const elapsed = Date.now() - runStartedAt;
+	if (config.MAX_RUN_DURATION_MS > 0 && elapsed >= config.MAX_RUN_DURATION_MS) {
+		return {
+			limit: 'duration',
+			message: `the run budget of ${formatDuration(config.MAX_RUN_DURATION_MS)} is used up after ${formatDuration(elapsed)} (maxRunDurationMs).`,
+		};
+	}
+	if (!config.RUN_UNTIL_DONE && loopsExecuted >= config.MAX_AUTONOMOUS_LOOPS) {
+		return {
+			limit: 'loops',
+			message: `reached maxAutonomousLoops (${config.MAX_AUTONOMOUS_LOOPS} stor${config.MAX_AUTONOMOUS_LOOPS === 1 ? 'y' : 'ies'}); enable runUntilDone to run every story.`,
+		};
+	}
+	return undefined;
+}
+
+/** Feed a story's outcome to the consecutive-failure breaker; a stopped story (undefined) does not count. */
+function recordRunOutcome(completed: boolean | undefined): void {
+	if (completed === undefined) { return; }
+	consecutiveFailures = completed ? 0 : consecutiveFailures + 1;
+}
+
+// ── Run Lock ────────────────────────────────────────────────────────────────
+// prepareRun takes the folder's .ralph/run.lock for this window. A heartbeat
+// keeps it alive while the run lasts; it is released when the run ends or
+// pauses. A live lock held by another window or `ralph` process refuses the
+// run, naming the holder; a stale one is recovered (see core.ts).
+
+const heldLocks = new Set<string>(); // workspace roots whose run lock this window holds
+let lockHeartbeat: NodeJS.Timeout | undefined;
+
+function getLockOwnerId(): string {
+	return vscode.env.sessionId;
+}
+
+/** Take the folder's run lock, telling the user who holds it if it is taken. */
+function acquireFolderLock(workspaceRoot: string): boolean {
+	const scope = getFolderPrefix(workspaceRoot);
+	let result: RunLockResult;
+	try {
+		result = RalphStateManager.acquireRunLock(workspaceRoot, createRunLockOwner('vscode', getLockOwnerId()), getConfig().RUN_LOCK_STALE_MS);
+	} catch (e: unknown) {
+		const msg = e instanceof Error ? e.message : String(e);
+		log(`ERROR: ${scope}Could not take the run lock: ${msg}`);
+		vscode.window.showErrorMessage(`RALPH: ${scope}Could not take the run lock: ${msg}`);
+		return false;
+	}
+
+	if (!result.acquired) {
+		const holder = describeRunLock(result.holder);
+		log(`Startup refused — ${scope}the folder is being run by ${holder}.`);
+		vscode.window.showErrorMessage(`RALPH: ${scope}This folder is already being run by ${holder}.`);
+		return false;
+	}
+	if (result.recovered) {
+		log(`Recovered a stale run lock held by ${describeRunLock(result.recovered)}.`);
+	}
+
+	heldLocks.add(workspaceRoot);
+	lockHeartbeat ??= setInterval(heartbeatFolderLocks, RUN_LOCK_HEARTBEAT_MS);
+	return true;
+}
+
+/** Refresh every held lock; a lock taken over by another run stops this one. */
+function heartbeatFolderLocks(): void {
+	for (const root of heldLocks) {
+		let held: boolean;
+		try {
+			held = RalphStateManager.heartbeatRunLock(root, getLockOwnerId());
+		} catch (e: unknown) {
+			log(`  WARNING: Could not refresh the run lock: ${e instanceof Error ? e.message : String(e)}`);
+			continue;
+		}
+		if (held) { continue; }
+
+		heldLocks.delete(root);
+		const holder = RalphStateManager.readRunLock(root);
+		log(`${getFolderPrefix(root)}The run lock was taken over${holder ? ` by ${describeRunLock(holder)}` : ''} — stopping.`);
+		vscode.window.showWarningMessage(`RALPH: ${getFolderPrefix(root)}Another run took over this folder — RALPH stopped.`);
+		if (isRunning && activeRoot === root) {
+			cancelToken?.cancel();
+			isRunning = false;
+		}
+	}
+}
+
+function releaseFolderLock(workspaceRoot: string): void {
+	if (!heldLocks.delete(workspaceRoot)) { return; }
+	RalphStateManager.releaseRunLock(workspaceRoot, getLockOwnerId());
+	if (heldLocks.size === 0 && lockHeartbeat) {
+		clearInterval(lockHeartbeat);
+		lockHeartbeat = undefined;
+	}
+}
+
+// ── Parallel Mode ───────────────────────────────────────────────────────────
+// With parallel.enabled, stories whose dependencies are resolved run side by
+// side, up to parallel.concurrency at a time. Each runs in its own git
+// worktree under .ralph/worktrees/<id>, on branch <branchName>-<id> created
+// from the folder's HEAD, and reports through the worktree's own status file;
+// the folder's .ralph/task-<id>-status marks it "inprogress" meanwhile. A
+// finished story is committed on its branch and merged into the folder's
+// branch in priority order: it waits for higher-priority stories started
+// before it. A merge conflict aborts the merge, marks the story "failed" and
+// keeps its changes on <branch>-unmerged for manual resolution. Stories whose
+// executor cannot run in parallel run on their own in the folder itself.
+
+type GitRepository = { api: GitAPI; repository: Repository };
+
+function getWorktreesDir(workspaceRoot: string): string {
+	return path.join(RalphStateManager.getRalphDir(workspaceRoot), 'worktrees');
+}
+
+/** A story running, or waiting to be merged, in its own worktree. */
+interface ParallelStory {
+	story: UserStory;
+	branch: string;
+	worktree: string;        // root of the worktree
+	executionRoot: string;   // the workspace folder inside the worktree
+	startedAt: Date;
+	done: Promise<void>;
+	outcome?: { result?: ExecutorResult; error?: string; cancelled?: boolean };
+}
+
+/**
+ * The parallel counterpart of the loop in runLoop: keeps up to
+ * parallel.concurrency stories running and merges them as they finish.
+ * A pause or cancellation stops new stories from starting and waits for
+ * the running ones.
+ */
+async function runParallelLoop(
+	workspaceRoot: string,
+	git: GitRepository,
+	loopsExecuted: number
+): Promise<{ loopsExecuted: number; paused: boolean; limitHit?: RunLimitHit }> {
+	const config = getConfig();
+	const active: ParallelStory[] = [];
+	const stopping = () => !isRunning || !!cancelToken?.token.isCancellationRequested || !!pauseToken?.token.isCancellationRequested;
+	let exhausted = false;
+	let limitHit: RunLimitHit | undefined;
+
+	log(`Parallel mode: up to ${config.PARALLEL_CONCURRENCY} stories at a time, each in its own git worktree.`);
+
+	for (;;) {
+		// Fill the free slots with runnable stories
+		while (!stopping() && !exhausted && !limitHit && active.filter(p => !p.outcome).length < config.PARALLEL_CONCURRENCY) {
+			limitHit = checkRunLimits(loopsExecuted);
+			if (limitHit) { break; }
+			const prd = parsePrd(workspaceRoot);
+			if (!prd) {
+				log('ERROR: Could not parse prd.json');
+				exhausted = true;
+				break;
+			}
+			const story = findNextPendingStory(prd, workspaceRoot, active.length === 0, new Set(active.map(p => p.story.id)));
+			if (!story) {
+				if (active.length === 0) {
+					reportNoRunnableStories(workspaceRoot, prd);
+					exhausted = true;
+				}
+				break;
+			}
+
+			const executor = executors.get(story.executor ?? config.EXECUTOR);
+			if (!executor?.parallel) {
+				if (active.length > 0) { break; } // wait until it can run alone
+				logStoryHeader(story, loopsExecuted);
+				log(`  ${executor?.label ?? story.executor ?? config.EXECUTOR} cannot run stories in parallel — running ${story.id} on its own.`);
+				recordRunOutcome(await runStoryAttempt(story, workspaceRoot, getStoryAttempts(workspaceRoot, story.id), true));
+			} else {
+				logStoryHeader(story, loopsExecuted);
+				active.push(startParallelStory(story, workspaceRoot, git, prd));
+			}
+			loopsExecuted++;
+			RalphStateManager.writeRunState(workspaceRoot, { loopsExecuted });
+		}
+
+		if (active.length === 0) { break; }
+		await Promise.race(active.filter(p => !p.outcome).map(p => p.done));
+		await mergeFinishedStories(workspaceRoot, git, active);
+	}
+
+	if (cancelToken?.token.isCancellationRequested || !isRunning) {
+		log('Cancelled by user.');
+	}
+	return { loopsExecuted, paused: !!pauseToken?.token.isCancellationRequested && !cancelToken?.token.isCancellationRequested, limitHit };
+}
+
+/** Mark the story "inprogress" and run it in a new worktree in the background. */
+function startParallelStory(story: UserStory, workspaceRoot: string, git: GitRepository, prd: PrdFile): ParallelStory {
+	const safeId = story.id.replace(/[^A-Za-z0-9._-]/g, '-');
+	const worktree = path.join(getWorktreesDir(workspaceRoot), safeId);
+	const entry: ParallelStory = {
+		story,
+		branch: `${prd.branchName.trim() || 'ralph'}-${safeId}`,
+		worktree,
+		executionRoot: path.join(worktree, path.relative(git.repository.rootUri.fsPath, workspaceRoot)),
+		startedAt: new Date(),
+		done: Promise.resolve(),
+	};
+	RalphStateManager.setInProgress(workspaceRoot, story.id);
+	entry.done = runInWorktree(entry, workspaceRoot, git).then(outcome => { entry.outcome = outcome; });
+	return entry;
+}
+
+/**
+ * Back off if the story failed before, then create its worktree, execute and
+ * verify it there and commit the result on its branch. Never throws.
+ */
+async function runInWorktree(entry: ParallelStory, workspaceRoot: string, git: GitRepository): Promise<NonNullable<ParallelStory['outcome']>> {
+	const config = getConfig();
+	const { story } = entry;
+	const previousAttempts = getStoryAttempts(workspaceRoot, story.id);
+	let result: ExecutorResult | undefined;
+
+	try {
+		if (previousAttempts) {
+			log(`  ${story.id}: retrying — attempt ${previousAttempts.failures + 1}/${config.MAX_ATTEMPTS_PER_STORY} (last error: ${previousAttempts.lastError})`);
+			const remaining = getRetryBackoffRemaining(previousAttempts);
+			if (remaining > 0) {
+				log(`  Backing off ${Math.round(remaining / 1000)}s before retrying ${story.id}...`);
+				await sleep(remaining, cancelToken?.token);
+			}
+		}
+		if (cancelToken?.token.isCancellationRequested || !isRunning) {
+			return { cancelled: true };
+		}
+
+		await createStoryWorktree(entry, git);
+		const base = (await runGit(git.api, entry.worktree, ['rev-parse', 'HEAD'])).trim();
+		log(`  ${story.id}: worktree ${toWorkspaceRelative(workspaceRoot, entry.worktree)} on branch ${entry.branch}`);
+		RalphStateManager.setInProgress(entry.executionRoot, story.id);
+
+		const executor = resolveExecutor(story);
+		const prompt = buildStoryPrompt(story, workspaceRoot, {
+			executionRoot: entry.executionRoot,
+			completionSignal: buildCompletionSignalLines(story, entry.executionRoot),
+			contextMaxChars: config.CONTEXT_MAX_CHARS,
+			previousFailure: previousAttempts && config.RETRY_INCLUDE_FAILURE_REASON ? previousAttempts.lastError : undefined,
+		});
+		log(`  ${story.id}: delegating to ${executor.label ?? executor.id}...`);
+		result = await runExecutor(executor, story, prompt, entry.executionRoot);
+
+		await verifyStory(story, workspaceRoot, entry.executionRoot);
+		await commitWorktree(entry, git);
+
+		if (needsReview(story)) {
+			const repoRoot = git.repository.rootUri.fsPath;
+			const changes = await diffForReview(git.api, repoRoot, entry.worktree, base, 'HEAD', getFolderPathspecs(git.repository, workspaceRoot));
+			await reviewStory(story, workspaceRoot, changes, async () => {
+				await verifyStory(story, workspaceRoot, entry.executionRoot);
+				await commitWorktree(entry, git);
+			});
+		}
+		log(`  ${story.id}: finished — waiting to be merged.`);
+		return { result };
+	} catch (err: unknown) {
+		if (cancelToken?.token.isCancellationRequested || !isRunning) {
+			return { result, cancelled: true };
+		}
+		return { result, error: err instanceof Error ? err.message : String(err) };
+	}
+}
+
+/**
+ * Merge every finished story that no higher-priority story started before it
+ * is still waiting on, highest priority first, and record the outcomes.
+ */
+async function mergeFinishedStories(workspaceRoot: string, git: GitRepository, active: ParallelStory[]): Promise<void> {
+	for (;;) {
+		const next = active
+			.filter((p, index) => p.outcome && !active.slice(0, index).some(o => !o.outcome && o.story.priority < p.story.priority))
+			.sort((a, b) => a.story.priority - b.story.priority)[0];
+		if (!next) { return; }
+		active.splice(active.indexOf(next), 1);
+		recordRunOutcome(await finishParallelStory(next, workspaceRoot, git));
+	}
+}
+
+/** Merge a finished story and record its outcome. Resolves true if it is done, undefined if it was stopped. */
+async function finishParallelStory(entry: ParallelStory, workspaceRoot: string, git: GitRepository): Promise<boolean | undefined> {
+	const { story } = entry;
+	const outcome = entry.outcome ?? {};
+
+	if (outcome.cancelled) {
+		// Stopped by the user: not a failed attempt, the story runs again next time
+		log(`⏹ Story ${story.id} stopped.`);
+		RalphStateManager.clearStalledTask(workspaceRoot, story.id);
+		if (fs.existsSync(entry.worktree)) { await removeStoryWorktree(entry, git, false); }
+		return undefined;
+	}
+
+	let errMsg = outcome.error;
+	let unmerged = false;
+	if (!errMsg) {
+		try {
+			const conflicts = await mergeStoryBranch(entry, git);
+			if (conflicts.length > 0) {
+				errMsg = `Merge conflict in ${conflicts.join(', ')} — changes kept on branch ${entry.branch}-unmerged`;
+				unmerged = true;
+			}
+		} catch (e: unknown) {
+			errMsg = `Could not merge ${entry.branch} (changes kept on branch ${entry.branch}-unmerged): ${e instanceof Error ? e.message : String(e)}`;
+			unmerged = true;
+		}
+	}
+
+	RalphStateManager.setCompleted(workspaceRoot, story.id);
+	await removeStoryWorktree(entry, git, unmerged);
+
+	if (errMsg) {
+		log(`❌ Story ${story.id} failed: ${errMsg}`);
+		recordFailedAttempt(workspaceRoot, story.id, errMsg, getConfig().MAX_ATTEMPTS_PER_STORY, { startedAt: entry.startedAt, model: outcome.result?.model });
+		if (unmerged) { surfaceUnmergedStory(entry, workspaceRoot, git, errMsg); }
+		return false;
+	}
+
+	writeProgressEntry(workspaceRoot, story.id, 'done', 'Completed successfully', {
+		startedAt: entry.startedAt,
+		model: outcome.result?.model,
+		summary: outcome.result?.summary,
+		filesChanged: outcome.result?.filesChanged,
+	});
+	log(`✅ Story ${story.id} completed and merged.`);
+	return true;
+}
+
+/** Create (or re-create) the story's worktree on a fresh branch from HEAD. */
+async function createStoryWorktree(entry: ParallelStory, git: GitRepository): Promise<void> {
+	const { api, repository } = git;
+	const repoRoot = repository.rootUri.fsPath;
+	if (fs.existsSync(entry.worktree)) {
+		// Left behind by an interrupted run
+		await runGit(api, repoRoot, ['worktree', 'remove', '--force', entry.worktree]).catch(() => undefined);
+		fs.rmSync(entry.worktree, { recursive: true, force: true });
+	}
+	await runGit(api, repoRoot, ['worktree', 'prune']);
+	await runGit(api, repoRoot, ['worktree', 'add', '-B', entry.branch, entry.worktree, 'HEAD']);
+}
+
+/** Commit everything the story changed in its worktree, except RALPH's own state. */
+async function commitWorktree(entry: ParallelStory, git: GitRepository): Promise<void> {
+	const { api } = git;
+	const stateDir = path.relative(entry.worktree, RalphStateManager.getRalphDir(entry.executionRoot)).split(path.sep).join('/');
+	await runGit(api, entry.worktree, ['add', '--all']);
+	if (!stateDir.startsWith('..') && !path.isAbsolute(stateDir)) {
+		// Unstage the state directory in case it is not gitignored
+		await runGit(api, entry.worktree, ['reset', '--quiet', '--', stateDir]);
+	}
+	const hasChanges = await runGit(api, entry.worktree, ['diff', '--cached', '--quiet']).then(() => false, () => true);
+	if (!hasChanges) {
+		log(`  Git: no changes to commit for ${entry.story.id}.`);
+		return;
+	}
+	await runGit(api, entry.worktree, ['commit', '-m', buildCommitMessage(entry.story)]);
+	log(`  Git: committed ${entry.story.id} on ${entry.branch}.`);
+}
+
+/**
+ * Merge the story's branch into the folder's branch. On a conflict the merge
+ * is aborted and the conflicting files are returned; other failures (such as
+ * local changes in the way) throw.
+ */
+async function mergeStoryBranch(entry: ParallelStory, git: GitRepository): Promise<string[]> {
+	const { api, repository } = git;
+	const repoRoot = repository.rootUri.fsPath;
+	try {
+		await runGit(api, repoRoot, ['merge', '--no-ff', '--no-edit', entry.branch]);
+		log(`  Git: merged ${entry.branch} into ${repository.state.HEAD?.name ?? 'HEAD'}.`);
+		return [];
+	} catch (e: unknown) {
+		const merging = await runGit(api, repoRoot, ['rev-parse', '--verify', '--quiet', 'MERGE_HEAD']).then(() => true, () => false);
+		if (!merging) { throw e; }
+		const conflicts = (await runGit(api, repoRoot, ['diff', '--name-only', '--diff-filter=U']).catch(() => ''))
+			.split('\n').filter(f => f.length > 0);
+		await runGit(api, repoRoot, ['merge', '--abort']);
+		return conflicts.length > 0 ? conflicts : ['the working tree'];
+	} finally {
+		await repository.status();
+	}
+}
+
+/**
+ * Remove the story's worktree. Its branch is deleted, or renamed to
+ * <branch>-unmerged when `keepBranch` is set so a retry cannot reset it.
+ */
+async function removeStoryWorktree(entry: ParallelStory, git: GitRepository, keepBranch: boolean): Promise<void> {
+	const { api, repository } = git;
+	const repoRoot = repository.rootUri.fsPath;
+	try {
+		if (fs.existsSync(entry.worktree)) {
+			await runGit(api, repoRoot, ['worktree', 'remove', '--force', entry.worktree]);
+		}
+		await runGit(api, repoRoot, keepBranch
+			? ['branch', '-M', entry.branch, `${entry.branch}-unmerged`]
+			: ['branch', '-D', entry.branch]);
+	} catch (e: unknown) {
+		log(`  WARNING: Could not clean up the worktree of ${entry.story.id}: ${e instanceof Error ? e.message : String(e)}`);
+	}
+}
+
+/** Tell the user a story could not be merged and offer to start the merge for them to resolve. */
+function surfaceUnmergedStory(entry: ParallelStory, workspaceRoot: string, git: GitRepository, errMsg: string): void {
+	const branch = `${entry.branch}-unmerged`;
+	vscode.window.showWarningMessage(
+		`RALPH: ${getFolderPrefix(workspaceRoot)}Story ${entry.story.id} was marked failed — ${errMsg}`,
+		'Merge & Resolve'
+	).then(async choice => {
+		if (choice !== 'Merge & Resolve') { return; }
+		// Leaves the conflict markers in the working tree for the SCM view
+		await runGit(git.api, git.repository.rootUri.fsPath, ['merge', '--no-ff', '--no-edit', branch]).catch(() => undefined);
+		await git.repository.status();
+		vscode.commands.executeCommand('workbench.view.scm');
+	});
+}
+
+// ── Story Execution ─────────────────────────────────────────────────────────
+
+/** Hands the story to its executor and waits for it to complete. */
+async function executeStory(story: UserStory, workspaceRoot: string, previousFailure?: string): Promise<ExecutorResult | undefined> {
+	const executor = resolveExecutor(story);
+	const prompt = buildCopilotPromptForStory(story, workspaceRoot, previousFailure);
+	log(`  Delegating user story to ${executor.label ?? executor.id}...`);
+	return runExecutor(executor, story, prompt, workspaceRoot);
+}
+
+/**
+ * Re-attach to a story that was in flight when the window was reloaded.
+ * Falls back to executing it again if its executor cannot resume.
+ */
+async function resumeStory(story: UserStory, workspaceRoot: string, previousFailure?: string): Promise<ExecutorResult | undefined> {
+	const executor = resolveExecutor(story);
+	if (!executor.resume) {
+		log(`  ${executor.label ?? executor.id} cannot re-attach to a running task — running ${story.id} again.`);
+		RalphStateManager.setInProgress(workspaceRoot, story.id);
+		return executeStory(story, workspaceRoot, previousFailure);
+	}
+	log(`  Re-attaching to ${story.id} via ${executor.label ?? executor.id}...`);
+	const token = cancelToken?.token ?? new vscode.CancellationTokenSource().token;
+	return (await executor.resume(buildExecutorRequest(story, workspaceRoot), token)) ?? undefined;
+}
+
+// ── Executors ───────────────────────────────────────────────────────────────
+// An executor carries out the prompt for a story. The executor is chosen by
+// the story's "executor" field, else the "executor" setting. Built in:
+//   chatPanel     — types the prompt into Copilot Chat, waits for the status file
+//   languageModel — tool-calling conversation via the Language Model API
+//   shell         — pipes the prompt to shellExecutor.command; exit code 0 = done
+// Other extensions add executors through the API returned from activate().
+
+const executors = new Map<string, StoryExecutor>();
+
+function registerExecutor(executor: StoryExecutor): vscode.Disposable {
+	if (executors.has(executor.id)) {
+		throw new Error(`An executor with id "${executor.id}" is already registered`);
+	}
+	executors.set(executor.id, executor);
+	log(`Executor registered: ${executor.id}`);
+	return new vscode.Disposable(() => {
+		if (executors.get(executor.id) === executor) { executors.delete(executor.id); }
+	});
+}
+
+function resolveExecutor(story: UserStory): StoryExecutor {
+	const id = story.executor ?? getConfig().EXECUTOR;
+	const executor = executors.get(id);
+	if (!executor) {
+		throw new Error(`Unknown executor "${id}" (registered: ${[...executors.keys()].join(', ')})`);
+	}
+	return executor;
+}
+
+function buildExecutorRequest(story: UserStory, workspaceRoot: string): Omit<ExecutorRequest, 'prompt'> {
+	return {
+		storyId: story.id,
+		workspaceRoot,
+		statusFile: RalphStateManager.getTaskStatusPath(workspaceRoot, story.id),
+		timeoutMs: getStoryTimeout(story, getConfig().COPILOT_TIMEOUT_MS),
+	};
+}
+
+async function runExecutor(executor: StoryExecutor, story: UserStory, prompt: string, workspaceRoot: string): Promise<ExecutorResult | undefined> {
+	const token = cancelToken?.token ?? new vscode.CancellationTokenSource().token;
+	appendTranscriptBlock(`Prompt sent to ${executor.label ?? executor.id}`, prompt);
+	const result = await executor.execute({ ...buildExecutorRequest(story, workspaceRoot), prompt }, token);
+	if (token.isCancellationRequested) {
+		throw new Error('Cancelled by user');
+	}
+	return result ?? undefined;
+}
+
+const chatPanelExecutor: StoryExecutor = {
+	id: 'chatPanel',
+	label: 'Copilot Chat',
+	execute: async ({ prompt, storyId, workspaceRoot, timeoutMs }) => {
+		const { summary, filesChanged } = await sendToCopilot(prompt, storyId, workspaceRoot, timeoutMs);
+		return { summary, filesChanged };
+	},
+	// The chat session survives a reload; keep watching its status file
+	resume: async ({ storyId, workspaceRoot, timeoutMs }) => {
+		const { summary, filesChanged } = await awaitCopilotOutcome(storyId, workspaceRoot, timeoutMs);
+		return { summary, filesChanged };
+	},
+};
+
+const languageModelExecutor: StoryExecutor = {
+	id: 'languageModel',
+	label: 'the Language Model API',
+	execute: ({ prompt, storyId, workspaceRoot, timeoutMs }) => runWithLanguageModel(prompt, storyId, workspaceRoot, timeoutMs),
+	completionInstructions: ({ workspaceRoot }) => [
+		'━━━ TASK COMPLETION ━━━',
+		`Use the ralph_* tools to inspect and change files and to run commands in ${workspaceRoot}.`,
+		'When you have fully completed ALL work for this task, reply with a short summary of the changes (2–5 sentences: what changed, which files, notable decisions) and do not call any further tools.',
+		'RALPH treats a reply without tool calls as the end of the task and passes your summary on to later stories.',
+	],
+};
+
+/**
+ * Runs shellExecutor.command in the workspace folder with the prompt on
+ * stdin. The prompt is also written to .ralph/logs/<id>.prompt.md and its
+ * path passed as RALPH_PROMPT_FILE, alongside RALPH_STORY_ID,
+ * RALPH_STATUS_FILE and RALPH_WORKSPACE_ROOT. Output goes to the story log.
+ * The `ralph` CLI runs stories the same way (see runShellAgent in core.ts).
+ */
+const shellExecutor: StoryExecutor = {
+	id: 'shell',
+	label: 'the shell executor',
+	execute: async ({ prompt, storyId, workspaceRoot, timeoutMs }) => {
+		const command = getConfig().SHELL_EXECUTOR_COMMAND.trim();
+		if (!command) {
+			throw new Error('ralph-runner.shellExecutor.command is not set');
+		}
+		await runShellAgent({ command, prompt, storyId, workspaceRoot, timeoutMs, signal: getCancelSignal() });
+	},
+	completionInstructions: () => SHELL_COMPLETION_LINES,
+	parallel: true,
+};
+
+[chatPanelExecutor, languageModelExecutor, shellExecutor].forEach(e => executors.set(e.id, e));
+
+// ── Story Verification ──────────────────────────────────────────────────────
+// After Copilot signals completion, the story's `verify` commands (or the
+// PRD-level default) are run in the workspace folder. Only a zero exit code
+// from every command lets the story be marked "done". Optionally, a failing
+// command's output is sent back to Copilot for a fix attempt before giving up.
+
+interface VerificationFailure {
+	command: string;
+	exitCode: number | null;
+	timedOut: boolean;
+	outputTail: string;
+}
+
+/**
+ * Run the verification commands once, stopping at the first failure.
+ * Returns null when every command exited 0 (or there are none).
+ */
+async function runVerification(commands: string[], workspaceRoot: string): Promise<VerificationFailure | null> {
+	const config = getConfig();
+	for (const command of commands) {
+		log(`  ▶ Verifying: ${command}`);
+		const started = Date.now();
+		const result = await runShellCommand(command, workspaceRoot, config.VERIFY_TIMEOUT_MS, { signal: getCancelSignal() });
+		const seconds = Math.round((Date.now() - started) / 1000);
+		appendTranscriptBlock(`Output of ${command}`, result.output.trimEnd());
+
+		if (result.exitCode === 0 && !result.timedOut) {
+			log(`  ✓ ${command} passed (${seconds}s)`);
+			continue;
+		}
+
+		const outputTail = tailLines(result.output, VERIFY_OUTPUT_TAIL_LINES);
+		log(result.timedOut
+			? `  ✗ ${command} timed out after ${seconds}s`
+			: `  ✗ ${command} exited with code ${result.exitCode} (${seconds}s)`);
+		for (const line of outputTail.split('\n')) {
+			log(`    ${line}`);
+		}
+		return { command, exitCode: result.exitCode, timedOut: result.timedOut, outputTail };
+	}
+	return null;
+}
+
+function describeVerificationFailure(failure: VerificationFailure): string {
+	const reason = failure.timedOut ? 'timed out' : `exited with code ${failure.exitCode}`;
+	return `Verification failed: \`${failure.command}\` ${reason}\n${failure.outputTail}`;
+}
+
+/**
+ * Gate a story's completion on its verification commands. When they fail and
+ * verifyFixAttempts allows it, the failure output is sent to Copilot in a
+ * follow-up prompt and verification is repeated. Throws if it still fails.
+ * Commands run in `executionRoot` (the story's worktree in parallel mode).
+ */
+async function verifyStory(story: UserStory, workspaceRoot: string, executionRoot = workspaceRoot): Promise<void> {
+	const commands = getVerifyCommands(story, workspaceRoot);
+	if (commands.length === 0) { return; }
+
+	const config = getConfig();
+	log(`  Running ${commands.length} verification command(s) for ${story.id}...`);
+	let failure = await runVerification(commands, executionRoot);
+
+	for (let fixAttempt = 1; failure && fixAttempt <= config.VERIFY_FIX_ATTEMPTS; fixAttempt++) {
+		log(`  Asking Copilot to fix the verification failure (fix attempt ${fixAttempt}/${config.VERIFY_FIX_ATTEMPTS})...`);
+		RalphStateManager.setInProgress(executionRoot, story.id);
+		await runExecutor(resolveExecutor(story), story, buildVerificationFixPrompt(story, workspaceRoot, failure, executionRoot), executionRoot);
+		failure = await runVerification(commands, executionRoot);
+	}
+
+	if (failure) {
+		throw new Error(describeVerificationFailure(failure));
+	}
+	log(`  ✓ All verification commands passed for ${story.id}.`);
+}
+
+function buildVerificationFixPrompt(story: UserStory, workspaceRoot: string, failure: VerificationFailure, executionRoot = workspaceRoot): string {
+	return [
+		`You were executing User Story ${story.id} of the current PRD: ${story.title}`,
+		`Workspace root: ${executionRoot}`,
+		'',
+		`The verification command \`${failure.command}\` ${failure.timedOut ? 'timed out' : `exited with code ${failure.exitCode}`}.`,
+		'Last lines of its output:',
+		'```',
+		failure.outputTail,
+		'```',
+		'',
+		'Fix the cause of this failure so that the command succeeds. Keep all other work for this story intact.',
+		'Do not ask questions — execute directly.',
+		'',
+		`${buildInstructionsBlock(parsePrd(workspaceRoot))}⚠️ IMPORTANT: Do NOT modify ${toWorkspaceRelative(workspaceRoot, getPrdPath(workspaceRoot))}. Never edit, overwrite, or update it for any reason.`,
+		'',
+		...buildCompletionSignalLines(story, executionRoot),
+	].join('\n');
+}
+
+// ── Git Integration ─────────────────────────────────────────────────────────
+// Uses the built-in vscode.git extension to put the workspace on the PRD's
+// branchName before the first story and, optionally, to commit each completed
+// story. Folders that are not git repositories are left alone.
+
+async function getGitAPI(): Promise<GitAPI | undefined> {
+	const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+	if (!extension) { return undefined; }
+	try {
+		const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+		return gitExtension.enabled ? gitExtension.getAPI(1) : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+async function getRepository(workspaceRoot: string): Promise<{ api: GitAPI; repository: Repository } | undefined> {
+	const api = await getGitAPI();
+	const repository = api?.getRepository(vscode.Uri.file(workspaceRoot));
+	if (!api || !repository) { return undefined; }
+	await repository.status();
+	return { api, repository };
+}
+
+function hasUncommittedChanges(repository: Repository): boolean {
+	const state = repository.state;
+	return state.workingTreeChanges.length + state.indexChanges.length + state.mergeChanges.length +
+		(state.untrackedChanges?.length ?? 0) > 0;
+}
+
+/** Run the git executable the git extension uses. Resolves with stdout. */
+function runGit(api: GitAPI, cwd: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+	return new Promise((resolve, reject) => {
+		cp.execFile(api.git.path, args, { cwd, env: env ?? process.env, maxBuffer: 16 * 1024 * 1024 }, (err, stdout, stderr) => {
+			if (err) {
+				reject(new Error(stderr.trim() || err.message));
+			} else {
+				resolve(stdout);
+			}
+		});
+	});
+}
+
+/**
+ * Create or check out `prd.branchName` unless it is already checked out.
+ * A dirty working tree blocks the switch unless the user agrees to stash.
+ * Returns false if the run must not start.
+ */
+async function ensurePrdBranch(workspaceRoot: string, prd: PrdFile): Promise<boolean> {
+	const branchName = prd.branchName.trim();
+	if (!getConfig().GIT_MANAGE_BRANCH || !branchName) { return true; }
+
+	const git = await getRepository(workspaceRoot);
+	if (!git) {
+		log(`  Git: ${getFolderPrefix(workspaceRoot)}not a git repository (or git is unavailable) — branch management skipped.`);
+		return true;
+	}
+	const { api, repository } = git;
+
+	const current = repository.state.HEAD?.name;
+	if (current === branchName) {
+		log(`  Git: already on branch ${branchName}.`);
+		return true;
+	}
+
+	if (hasUncommittedChanges(repository)) {
+		const action = await vscode.window.showWarningMessage(
+			`RALPH: ${getFolderPrefix(workspaceRoot)}The working tree has uncommitted changes. RALPH needs to switch from ${current ?? 'a detached HEAD'} to ${branchName}.`,
+			'Stash & Continue', 'Cancel'
+		);
+		if (action !== 'Stash & Continue') {
+			log(`Startup aborted — uncommitted changes on ${current ?? 'detached HEAD'}; not switching to ${branchName}.`);
+			return false;
+		}
+		try {
+			await runGit(api, repository.rootUri.fsPath, ['stash', 'push', '--include-untracked', '-m', `RALPH: before switching to ${branchName}`]);
+			log(`  Git: stashed uncommitted changes from ${current ?? 'detached HEAD'}.`);
+		} catch (e: unknown) {
+			const msg = e instanceof Error ? e.message : String(e);
+			log(`ERROR: Could not stash changes: ${msg}`);
+			vscode.window.showErrorMessage(`RALPH: Could not stash changes: ${msg}`);
+			return false;
+		}
+	}
+
+	try {
+		const exists = await repository.getBranch(branchName).then(() => true, () => false);
+		if (exists) {
+			await repository.checkout(branchName);
+			log(`  Git: checked out existing branch ${branchName}.`);
+		} else {
+			await repository.createBranch(branchName, true);
+			log(`  Git: created and checked out branch ${branchName}.`);
+		}
+		return true;
+	} catch (e: unknown) {
+		const msg = e instanceof Error ? e.message : String(e);
+		log(`ERROR: Could not check out branch ${branchName}: ${msg}`);
+		vscode.window.showErrorMessage(`RALPH: Could not check out branch ${branchName}: ${msg}`);
+		return false;
+	}
+}
+
+/**
+ * Stage every change in the repository and commit it with a message built
+ * from the git.commitMessage template. A failed commit is reported but does
+ * not fail the story.
+ */
+async function commitStory(story: UserStory, workspaceRoot: string): Promise<void> {
+	const git = await getRepository(workspaceRoot);
+	if (!git) {
+		log('  Git: not a git repository — skipping story commit.');
+		return;
+	}
+	const { repository } = git;
+
+	if (!hasUncommittedChanges(repository)) {
+		log(`  Git: no changes to commit for ${story.id}.`);
+		return;
+	}
+
+	const message = buildCommitMessage(story);
+	try {
+		const state = repository.state;
+		const paths = [...state.workingTreeChanges, ...(state.untrackedChanges ?? [])].map(c => c.uri.fsPath);
+		if (paths.length > 0) {
+			await repository.add(paths);
+		}
+		await repository.commit(message);
+		log(`  Git: committed ${story.id} — "${message}"`);
+	} catch (e: unknown) {
+		const msg = e instanceof Error ? e.message : String(e);
+		log(`  WARNING: Could not commit ${story.id}: ${msg}`);
+		vscode.window.showWarningMessage(`RALPH: Could not commit story ${story.id}: ${msg}`);
+	}
+}
+
+/** The git.commitMessage template filled in for a story. */
+function buildCommitMessage(story: UserStory): string {
+	return getConfig().GIT_COMMIT_MESSAGE
+		.replace(/\$\{storyId\}/g, story.id)
+		.replace(/\$\{storyTitle\}/g, story.title);
+}
+
+// ── Checkpoints ─────────────────────────────────────────────────────────────
+// Before each story RALPH snapshots the workspace folder — tracked and
+// untracked files, minus anything .gitignore'd — into a commit stored under
+// refs/ralph/checkpoints/<storyId>. HEAD, the index and the working tree are
+// left untouched. The commit id is recorded on the story's progress attempt,
+// so a failed story (or any story, on request) can be rolled back to the
+// state it started from without affecting work committed or made before it.
+
+const CHECKPOINT_REF_PREFIX = 'refs/ralph/checkpoints/';
+
+/** Identity for checkpoint commits, so they work without user.name/user.email. */
+const CHECKPOINT_IDENTITY = {
+	GIT_AUTHOR_NAME: 'RALPH Runner',
+	GIT_AUTHOR_EMAIL: 'ralph-runner@localhost',
+	GIT_COMMITTER_NAME: 'RALPH Runner',
+	GIT_COMMITTER_EMAIL: 'ralph-runner@localhost',
+};
+
+/** The workspace folder as a pathspec relative to the repository root. */
+function getFolderPathspec(repository: Repository, workspaceRoot: string): string {
+	return path.relative(repository.rootUri.fsPath, workspaceRoot).split(path.sep).join('/') || '.';
+}
+
+/** The folder's state directory relative to the repository root, unless it lies outside the repository. */
+function getStateDirPathspec(repository: Repository, workspaceRoot: string): string | undefined {
+	const relative = path.relative(repository.rootUri.fsPath, RalphStateManager.getRalphDir(workspaceRoot));
+	return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative.split(path.sep).join('/') : undefined;
+}
+
+/**
+ * The workspace folder without its state directory, so checkpoints never
+ * capture or restore progress.json, run.lock or the run logs — not even
+ * when .ralph/ is missing from .gitignore.
+ */
+function getFolderPathspecs(repository: Repository, workspaceRoot: string): string[] {
+	const stateDir = getStateDirPathspec(repository, workspaceRoot);
+	return [getFolderPathspec(repository, workspaceRoot), ...(stateDir ? [`:(exclude)${stateDir}`] : [])];
+}
+
+/**
+ * Write the current state of the workspace folder to a tree object using a
+ * throwaway index, so the real index is never touched. Returns the tree id
+ * and the commit HEAD pointed at (undefined in a repository without commits).
+ */
+async function snapshotWorkingTree(api: GitAPI, repository: Repository, workspaceRoot: string): Promise<{ tree: string; head: string | undefined }> {
+	const repoRoot = repository.rootUri.fsPath;
+	RalphStateManager.ensureDir(workspaceRoot);
+	const indexPath = path.join(RalphStateManager.getRalphDir(workspaceRoot), 'checkpoint.index');
+	const env = { ...process.env, GIT_INDEX_FILE: indexPath };
+
+	try {
+		if (fs.existsSync(indexPath)) { fs.unlinkSync(indexPath); }
+		const head = await runGit(api, repoRoot, ['rev-parse', '--verify', '--quiet', 'HEAD']).then(out => out.trim(), () => undefined);
+		if (head) {
+			await runGit(api, repoRoot, ['read-tree', head], env);
+		}
+		await runGit(api, repoRoot, ['add', '--all', '--', getFolderPathspec(repository, workspaceRoot)], env);
+		const stateDir = getStateDirPathspec(repository, workspaceRoot);
+		if (stateDir) {
+			// `git add` fails on an exclude pathspec that names an ignored
+			// directory, so the state directory (which holds this index) is
+			// unstaged afterwards instead
+			await runGit(api, repoRoot, ['rm', '-r', '-f', '--cached', '--quiet', '--ignore-unmatch', '--', stateDir], env);
+		}
+		const tree = (await runGit(api, repoRoot, ['write-tree'], env)).trim();
+		return { tree, head };
+	} finally {
+		if (fs.existsSync(indexPath)) { fs.unlinkSync(indexPath); }
+	}
+}
+
+/**
+ * Snapshot the workspace folder before a story runs. Returns the checkpoint
+ * commit id, or undefined if the folder is not a git repository or the
+ * snapshot failed (a story is never blocked by a missing checkpoint).
+ */
+async function createCheckpoint(story: UserStory, workspaceRoot: string): Promise<string | undefined> {
+	const git = await getRepository(workspaceRoot);
+	if (!git) {
+		log('  Checkpoint: not a git repository — skipped.');
+		return undefined;
+	}
+	const { api, repository } = git;
+
+	try {
+		const { tree, head } = await snapshotWorkingTree(api, repository, workspaceRoot);
+		const repoRoot = repository.rootUri.fsPath;
+		const commit = (await runGit(
+			api, repoRoot,
+			['commit-tree', tree, ...(head ? ['-p', head] : []), '-m', `RALPH checkpoint before ${story.id}: ${story.title}`],
+			{ ...process.env, ...CHECKPOINT_IDENTITY }
+		)).trim();
+		const ref = CHECKPOINT_REF_PREFIX + story.id.replace(/[^A-Za-z0-9._-]/g, '-');
+		await runGit(api, repoRoot, ['update-ref', ref, commit]);
+		log(`  Checkpoint: ${commit.slice(0, 10)} (${ref})`);
+		return commit;
+	} catch (e: unknown) {
+		const msg = e instanceof Error ? e.message : String(e);
+		log(`  WARNING: Could not create a checkpoint for ${story.id}: ${msg}`);
+		return undefined;
+	}
+}
+
+/**
+ * Restore the workspace folder's files to a checkpoint: files created since
+ * are deleted (and unstaged), modified and deleted files are restored. HEAD
+ * is not changed. Throws if git is unavailable or a git command fails.
+ */
+async function rollbackToCheckpoint(workspaceRoot: string, checkpoint: string): Promise<void> {
+	const git = await getRepository(workspaceRoot);
+	if (!git) {
+		throw new Error('Not a git repository, or the Git extension is unavailable.');
+	}
+	const { api, repository } = git;
+	const repoRoot = repository.rootUri.fsPath;
+	const pathspecs = getFolderPathspecs(repository, workspaceRoot);
+
+	// Files that did not exist at the checkpoint are not touched by
+	// `git restore`, so remove them first
+	const { tree } = await snapshotWorkingTree(api, repository, workspaceRoot);
+	const added = (await runGit(api, repoRoot, ['diff', '--name-only', '-z', '--no-renames', '--diff-filter=A', checkpoint, tree, '--', ...pathspecs]))
+		.split('\0')
+		.filter(p => p.length > 0);
+	for (const file of added) {
+		fs.rmSync(path.join(repoRoot, file), { force: true });
+	}
+	if (added.length > 0) {
+		await runGit(api, repoRoot, ['rm', '--cached', '--quiet', '--ignore-unmatch', '--', ...added]);
+	}
+
+	await runGit(api, repoRoot, ['restore', `--source=${checkpoint}`, '--worktree', '--', ...pathspecs]);
+	await repository.status();
+	log(`  Rolled back ${getFolderPrefix(workspaceRoot)}to checkpoint ${checkpoint.slice(0, 10)} (${added.length} new file(s) removed).`);
+}
+
+/** The checkpoint taken before the most recent attempt of a story, if any. */
+function getLatestCheckpoint(workspaceRoot: string, storyId: string): ProgressAttempt | undefined {
+	return [...getStoryHistory(workspaceRoot, storyId)].reverse().find(a => a.checkpoint);
+}
+
+// ── Story Review ────────────────────────────────────────────────────────────
+// With review.mode "flagged" (the default) stories with requiresReview pause
+// once they are verified; with "all" every story does. The files the story
+// changed since its checkpoint open in a multi-file diff and RALPH waits for
+// a verdict: Approve continues, Reject rolls the story back and marks it
+// failed (an optional reason is passed on to the retry), and Edit lets the
+// user fix the changes by hand, which are verified again before continuing.
+// In parallel mode the review happens in the story's worktree before it is
+// merged, and a rejected story's branch is discarded.
+
+/** Thrown when the user rejects a story's changes in review. */
+class ReviewRejectedError extends Error { }
+
+/** A file the story added, modified or deleted. */
+interface ReviewChange {
+	uri: vscode.Uri;       // the file as the story left it
+	original?: vscode.Uri; // its content before the story; undefined if added
+	deleted: boolean;
+}
+
+function needsReview(story: UserStory): boolean {
+	const mode = getConfig().REVIEW_MODE;
+	return mode === 'all' || (mode === 'flagged' && story.requiresReview === true);
+}
+
+/**
+ * The files that differ between `from` and `to` under `pathspecs`. Files are
+ * read from `filesRoot`; their original content is served by the Git
+ * extension from `repoRoot`, a repository that contains `from`.
+ */
+async function diffForReview(api: GitAPI, repoRoot: string, filesRoot: string, from: string, to: string, pathspecs: string[]): Promise<ReviewChange[]> {
+	const fields = (await runGit(api, filesRoot, ['diff', '--name-status', '-z', '--no-renames', from, to, '--', ...pathspecs]))
+		.split('\0')
+		.filter(f => f.length > 0);
+	const changes: ReviewChange[] = [];
+	for (let i = 0; i + 1 < fields.length; i += 2) {
+		const [status, file] = [fields[i], fields[i + 1]];
+		changes.push({
+			uri: vscode.Uri.file(path.join(filesRoot, file)),
+			original: status === 'A' ? undefined : api.toGitUri(vscode.Uri.file(path.join(repoRoot, file)), from),
+			deleted: status === 'D',
+		});
+	}
+	return changes;
+}
+
+/**
+ * What a story changed in the folder since its checkpoint. Without one (not
+ * a git repository) only the files the executor reported can be listed,
+ * without their original content.
+ */
+async function collectStoryChanges(workspaceRoot: string, checkpoint: string | undefined, result: ExecutorResult | undefined): Promise<ReviewChange[]> {
+	const git = checkpoint ? await getRepository(workspaceRoot) : undefined;
+	if (!checkpoint || !git) {
+		return (result?.filesChanged ?? []).map(file => {
+			const absolute = path.resolve(workspaceRoot, file);
+			return { uri: vscode.Uri.file(absolute), deleted: !fs.existsSync(absolute) };
+		});
+	}
+	const { api, repository } = git;
+	const repoRoot = repository.rootUri.fsPath;
+	const { tree } = await snapshotWorkingTree(api, repository, workspaceRoot);
+	return diffForReview(api, repoRoot, repoRoot, checkpoint, tree, getFolderPathspecs(repository, workspaceRoot));
+}
+
+async function showReviewDiff(story: UserStory, changes: ReviewChange[]): Promise<void> {
+	if (changes.length === 0) { return; }
+	await vscode.commands.executeCommand(
+		'vscode.changes',
+		`RALPH Review: ${story.id} — ${story.title}`,
+		changes.map(c => [c.uri, c.original, c.deleted ? undefined : c.uri])
+	);
+}
+
+/**
+ * Show a story's changes and wait for the user's verdict. Resolves once they
+ * are approved; after an edit, only once `verify` passes. Throws
+ * ReviewRejectedError if they are rejected, and a plain "Cancelled by user"
+ * error if the run is cancelled.
+ */
+async function reviewStory(story: UserStory, workspaceRoot: string, changes: ReviewChange[], verify: () => Promise<void>): Promise<void> {
+	const token = cancelToken?.token;
+	let cancelListener: vscode.Disposable | undefined;
+	const cancelled = new Promise<undefined>(resolve => {
+		cancelListener = token?.onCancellationRequested(() => resolve(undefined));
+	});
+	const throwIfCancelled = () => {
+		if (token?.isCancellationRequested || !isRunning) { throw new Error('Cancelled by user'); }
+	};
+	const prefix = getFolderPrefix(workspaceRoot);
+	const files = changes.length === 1 ? '1 file' : `${changes.length} files`;
+
+	log(`  👀 ${story.id} awaits review (${files} changed).`);
+	try {
+		await showReviewDiff(story, changes);
+		let editing = false;
+		let verifyError: string | undefined;
+
+		for (;;) {
+			const message = !editing
+				? `RALPH: ${prefix}Review ${story.id} — ${story.title} (${files} changed).`
+				: verifyError
+					? `RALPH: ${prefix}${story.id} failed verification after your edits — ${verifyError}`
+					: `RALPH: ${prefix}Edit the changes of ${story.id}, then continue.`;
+			const choice = await Promise.race([
+				vscode.window.showInformationMessage(message, ...(editing ? ['Continue'] : ['Approve', 'Edit']), 'Reject', 'Show Changes'),
+				cancelled,
+			]);
+			throwIfCancelled();
+
+			if (choice === 'Approve') {
+				log(`  👍 ${story.id} approved.`);
+				return;
+			}
+			if (choice === 'Edit') {
+				log(`  ✏️ ${story.id}: waiting for manual edits.`);
+				editing = true;
+			} else if (choice === 'Continue') {
+				try {
+					await verify();
+					log(`  👍 ${story.id} approved after manual edits.`);
+					return;
+				} catch (e: unknown) {
+					throwIfCancelled();
+					verifyError = e instanceof Error ? e.message.split('\n')[0] : String(e);
+					log(`  ${story.id}: verification failed after manual edits: ${verifyError}`);
+				}
+			} else if (choice === 'Reject') {
+				const reason = await Promise.race([
+					vscode.window.showInputBox({
+						title: `RALPH: Reject ${story.id}`,
+						prompt: 'Why? Passed on to the next attempt (optional)',
+						ignoreFocusOut: true,
+					}, token),
+					cancelled,
+				]);
+				throwIfCancelled();
+				log(`  👎 ${story.id} rejected in review.`);
+				throw new ReviewRejectedError(reason?.trim() ? `Rejected in review: ${reason.trim()}` : 'Rejected in review');
+			} else if (choice === 'Show Changes') {
+				await showReviewDiff(story, changes);
+			}
+			// A dismissed notification is shown again
+		}
+	} finally {
+		cancelListener?.dispose();
+	}
+}
+
+// ── Copilot Integration ─────────────────────────────────────────────────────
+
+/** The story prompt, ending with the completion instructions of the story's executor. */
+function buildCopilotPromptForStory(story: UserStory, workspaceRoot: string, previousFailure?: string): string {
+	return buildStoryPrompt(story, workspaceRoot, {
+		completionSignal: buildCompletionSignalLines(story, workspaceRoot),
+		contextMaxChars: getConfig().CONTEXT_MAX_CHARS,
+		previousFailure,
+	});
+}
+
+/**
+ * The instructions telling the agent how to signal that a task is complete:
+ * the story executor's own, or else the status-file signal.
+ */
+function buildCompletionSignalLines(story: UserStory, workspaceRoot: string): string[] {
+	const executor = executors.get(story.executor ?? getConfig().EXECUTOR);
+	if (executor?.completionInstructions) {
+		return executor.completionInstructions(buildExecutorRequest(story, workspaceRoot));
+	}
+	return buildStatusFileSignalLines(story.id, workspaceRoot);
+}
+
+/**
+ * Types a prompt into Copilot Chat and waits for the outcome in the status
+ * file. A needs-input outcome asks the user the question and sends the answer
+ * as a follow-up; failed and blocked outcomes throw with the agent's reason.
+ */
+async function sendToCopilot(prompt: string, taskId: string, workspaceRoot: string, timeoutMs: number): Promise<TaskResult> {
+	await openCopilotChat(prompt);
+	return awaitCopilotOutcome(taskId, workspaceRoot, timeoutMs);
+}
+
+/** The waiting half of sendToCopilot, also used to re-attach after a reload. */
+async function awaitCopilotOutcome(taskId: string, workspaceRoot: string, timeoutMs: number): Promise<TaskResult> {
+	for (;;) {
+		const result = await waitForCopilotCompletion(taskId, workspaceRoot, timeoutMs);
+		if (result.status === 'completed') {
+			return result;
+		}
+		if (result.status !== 'needs-input') {
+			throw new Error(`Copilot reported task ${taskId} as ${result.status}: ${result.reason ?? 'no reason given'}`);
+		}
+
+		const question = result.reason ?? 'Copilot needs more information to continue.';
+		const answer = await askForInput(taskId, question);
+		if (!answer) {
+			throw new Error(`Copilot needs input on task ${taskId}: ${question}`);
+		}
+		log(`  Forwarding the answer to Copilot...`);
+		RalphStateManager.setInProgress(workspaceRoot, taskId);
+		await openCopilotChat([
+			`You asked a question while executing User Story ${taskId}: ${question}`,
+			'',
+			`The user answered: ${answer}`,
+			'',
+			'Continue the task with this answer. Keep all work done so far.',
+			'',
+			...buildStatusFileSignalLines(taskId, workspaceRoot),
+		].join('\n'));
+	}
+}
+
+/**
+ * Show the agent's question as a notification and collect the answer.
+ * Resolves undefined if the user declines or the run is stopped.
+ */
+async function askForInput(taskId: string, question: string): Promise<string | undefined> {
+	log(`  ❓ Copilot needs input on ${taskId}: ${question}`);
+	const token = cancelToken?.token;
+	let cancelListener: vscode.Disposable | undefined;
+	const cancelled = new Promise<undefined>(resolve => {
+		cancelListener = token?.onCancellationRequested(() => resolve(undefined));
+	});
+
+	try {
+		const action = await Promise.race([
+			vscode.window.showWarningMessage(`RALPH: ${taskId} needs input — ${question}`, 'Answer', 'Fail Story'),
+			cancelled,
+		]);
+		if (action !== 'Answer') { return undefined; }
+
+		return await Promise.race([
+			vscode.window.showInputBox({ title: `RALPH: ${taskId} needs input`, prompt: question, ignoreFocusOut: true }, token),
+			cancelled,
+		]);
+	} finally {
+		cancelListener?.dispose();
+	}
+}
+
+async function openCopilotChat(prompt: string): Promise<void> {
+	log('  Sending prompt to Copilot Chat...');
+
+	try {
+		await vscode.commands.executeCommand('workbench.action.chat.open', {
+			query: prompt,
+			isPartialQuery: false
+		});
+	} catch {
+		// Fallback: try older command API
+		try {
+			await vscode.commands.executeCommand('workbench.panel.chat.view.copilot.focus');
+			await sleep(1000);
+			await vscode.commands.executeCommand('workbench.action.chat.open', prompt);
+		} catch {
+			log('  WARNING: Could not programmatically send to Copilot. Copying to clipboard.');
+			await vscode.env.clipboard.writeText(prompt);
+			await vscode.commands.executeCommand('workbench.action.chat.open');
+			log('  Prompt copied to clipboard. Paste into Copilot Chat.');
+		}
+	}
+}
+
+/**
+ * Resolves true as soon as `isSatisfied()` holds, or false once `timeoutMs`
+ * has elapsed. The condition is re-evaluated the moment any
+ * .ralph/task-*-status file is created, changed or deleted; a slow poll every
+ * `pollMs` (starting after `pollDelayMs`) is kept as a fallback for file
+ * systems that do not deliver watcher events.
+ * Rejects with "Cancelled by user" as soon as the run's cancel token fires.
+ */
+function waitForTaskState(
+	workspaceRoot: string,
+	isSatisfied: () => boolean,
+	options: { timeoutMs: number; pollMs: number; pollDelayMs: number; onPoll?: (elapsedMs: number) => void }
+): Promise<boolean> {
+	return new Promise<boolean>((resolve, reject) => {
+		const startTime = Date.now();
+		const disposables: vscode.Disposable[] = [];
+		const timers: NodeJS.Timeout[] = [];
+		let settled = false;
+
+		const finish = (outcome: boolean | Error) => {
+			if (settled) { return; }
+			settled = true;
+			timers.forEach(t => clearTimeout(t));
+			disposables.forEach(d => d.dispose());
+			if (outcome instanceof Error) { reject(outcome); } else { resolve(outcome); }
+		};
+		const check = () => {
+			if (!settled && isSatisfied()) { finish(true); }
+		};
+
+		const token = cancelToken?.token;
+		if (token?.isCancellationRequested) {
+			finish(new Error('Cancelled by user'));
+			return;
+		}
+		if (token) {
+			disposables.push(token.onCancellationRequested(() => finish(new Error('Cancelled by user'))));
+		}
+
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(vscode.Uri.file(RalphStateManager.getRalphDir(workspaceRoot)), 'task-*-status')
+		);
+		disposables.push(
+			watcher,
+			watcher.onDidCreate(check),
+			watcher.onDidChange(check),
+			watcher.onDidDelete(check)
+		);
+
+		// Fallback polling — only matters if watcher events are not delivered
+		const poll = () => {
+			check();
+			if (settled) { return; }
+			options.onPoll?.(Date.now() - startTime);
+			timers.push(setTimeout(poll, options.pollMs));
+		};
+		timers.push(setTimeout(poll, Math.max(options.pollDelayMs, options.pollMs)));
+		timers.push(setTimeout(() => finish(false), options.timeoutMs));
+
+		check();
+	});
+}
+
+/**
+ * Waits until Copilot reports an outcome in .ralph/task-<id>-status and
+ * returns it. Reacts to the file change immediately via a file-system
+ * watcher; polling every copilotResponsePollMs (after copilotMinWaitMs) is
+ * only a fallback. Throws if `timeoutMs` passes without an outcome.
+ */
+async function waitForCopilotCompletion(taskId: string, workspaceRoot: string, timeoutMs: number): Promise<TaskResult> {
+	const config = getConfig();
+	const statusFile = toWorkspaceRelative(workspaceRoot, RalphStateManager.getTaskStatusPath(workspaceRoot, taskId));
+	log(`  Waiting for Copilot to report the outcome in ${statusFile}...`);
+
+	const startTime = Date.now();
+	const reported = await waitForTaskState(
+		workspaceRoot,
+		() => RalphStateManager.getTaskResult(workspaceRoot, taskId) !== undefined,
+		{
+			timeoutMs,
+			pollMs: config.COPILOT_RESPONSE_POLL_MS,
+			pollDelayMs: config.COPILOT_MIN_WAIT_MS,
+			onPoll: elapsed => {
+				const status = RalphStateManager.getTaskStatus(workspaceRoot, taskId);
+				log(`  … still waiting for Copilot to complete task ${taskId} (status: ${status}, elapsed ${Math.round(elapsed / 1000)}s)`);
+			}
+		}
+	);
+
+	const result = reported ? RalphStateManager.getTaskResult(workspaceRoot, taskId) : undefined;
+	if (result) {
+		log(`  ✓ Copilot reported "${result.status}" in ${statusFile} (elapsed ${Math.round((Date.now() - startTime) / 1000)}s)`);
+		return result;
+	}
+
+	log(`  ⚠ Copilot timed out after ${Math.round(timeoutMs / 1000)}s without reporting an outcome — proceeding.`);
+	throw new Error(`Copilot timed out on task ${taskId}`);
+}
+
+/**
+ * Block until no .ralph/task-*-status file contains "inprogress".
+ * Under normal sequential operation this resolves immediately.
+ * Wakes on status file changes, polls every COPILOT_RESPONSE_POLL_MS as a
+ * fallback and times out after COPILOT_TIMEOUT_MS.
+ */
+async function ensureNoActiveTask(workspaceRoot: string): Promise<void> {
+	const config = getConfig();
+
+	if (!RalphStateManager.isAnyInProgress(workspaceRoot)) {
+		return; // Fast path — no active task
+	}
+
+	const activeId = RalphStateManager.getInProgressTaskId(workspaceRoot);
+	log(`  ⏳ Task ${activeId} is still inprogress on disk — waiting for it to complete...`);
+
+	const waitStart = Date.now();
+	const cleared = await waitForTaskState(
+		workspaceRoot,
+		() => !RalphStateManager.isAnyInProgress(workspaceRoot),
+		{
+			timeoutMs: config.COPILOT_TIMEOUT_MS,
+			pollMs: config.COPILOT_RESPONSE_POLL_MS,
+			pollDelayMs: 0,
+			onPoll: () => {
+				const stillActive = RalphStateManager.getInProgressTaskId(workspaceRoot);
+				log(`  … still waiting for task ${stillActive} to clear inprogress state`);
+			}
+		}
+	);
+
+	if (cleared) {
+		const waited = Math.round((Date.now() - waitStart) / 1000);
+		log(`  ✓ No active task on disk — proceeding (waited ${waited}s)`);
+		return;
+	}
+
+	// Timed out — clear the lock to prevent a permanent deadlock
+	const timedOutId = RalphStateManager.getInProgressTaskId(workspaceRoot);
+	if (timedOutId !== null) {
+		log(`  WARNING: Timed out waiting for task ${timedOutId} — clearing stale lock and proceeding.`);
+		RalphStateManager.clearStalledTask(workspaceRoot, timedOutId);
+	}
+}
+
+// ── Language Model Backend ──────────────────────────────────────────────────
+// With the "languageModel" executor, RALPH talks to a chat model via
+// vscode.lm instead of typing into the Chat panel. The model works through
+// the ralph_* tools contributed in package.json (read, write and edit files,
+// list files, run commands); RALPH executes the tool calls, feeds the results
+// back and treats the first reply without tool calls as the end of the task.
+// The whole conversation is appended to .ralph/logs/<storyId>.md. The tools
+// only serve these conversations: other chat agents and extensions see them
+// too, so every conversation gets a secret key that RALPH adds to the input
+// of its own tool calls, and any call without a live key is refused.
+
+const LM_TOOL_PREFIX = 'ralph_';
+const LM_MAX_TOOL_ROUNDS = 200;
+const LM_READ_MAX_CHARS = 200 * 1024;
+const LM_LIST_MAX_FILES = 500;
+
+/** Input field carrying the key of the conversation a tool call belongs to. */
+const LM_TOOL_KEY_FIELD = 'ralphRequestKey';
+
+/** Language Model API conversations in progress, by their secret key. */
+const lmToolRequests = new Map<string, { workspaceRoot: string; taskId: string }>();
+
+/**
+ * Pick the chat model named by the languageModel setting (matched against
+ * model id, then family), preferring Copilot models. An empty setting picks
+ * the first available Copilot model.
+ */
+async function selectLanguageModel(wanted: string): Promise<vscode.LanguageModelChat> {
+	const copilotModels = await vscode.lm.selectChatModels({ vendor: 'copilot' });
+	const models = wanted ? [...copilotModels, ...await vscode.lm.selectChatModels()] : copilotModels;
+	const model = wanted
+		? models.find(m => m.id === wanted) ?? models.find(m => m.family === wanted)
+		: models[0];
+
+	if (!model) {
+		const available = [...new Set(models.map(m => m.id))].join(', ') || 'none';
+		throw new Error(wanted
+			? `Language model "${wanted}" is not available (available: ${available})`
+			: 'No Copilot language model is available — check that GitHub Copilot Chat is installed and signed in');
+	}
+	return model;
+}
+
+/**
+ * Run one task as a tool-calling conversation with a language model.
+ * Throws on timeout (`timeoutMs`), cancellation or a model error.
+ */
+async function runWithLanguageModel(prompt: string, taskId: string, workspaceRoot: string, timeoutMs: number): Promise<ExecutorResult> {
+	const config = getConfig();
+	const model = await selectLanguageModel(config.LANGUAGE_MODEL);
+	const tools = vscode.lm.tools.filter(t => t.name.startsWith(LM_TOOL_PREFIX));
+	const logPath = getStoryLogPath(workspaceRoot, taskId);
+
+	log(`  Sending prompt to ${model.name} (${model.id}) via the Language Model API...`);
+	log(`  Conversation log: ${toWorkspaceRelative(workspaceRoot, logPath)}`);
+	appendStoryLog(logPath, `\n## ${new Date().toISOString()} — ${model.id}\n\n### Prompt\n\n${prompt}\n\n### Response\n\n`);
+
+	const requestCancel = new vscode.CancellationTokenSource();
+	const cancelListener = cancelToken?.token.onCancellationRequested(() => requestCancel.cancel());
+	let timedOut = false;
+	const timer = setTimeout(() => {
+		timedOut = true;
+		requestCancel.cancel();
+	}, timeoutMs);
+
+	const messages = [vscode.LanguageModelChatMessage.User(prompt)];
+	const startTime = Date.now();
+	let finalReply = '';
+	const toolKey = crypto.randomUUID();
+	lmToolRequests.set(toolKey, { workspaceRoot, taskId });
+	try {
+		for (let round = 1; ; round++) {
+			if (round > LM_MAX_TOOL_ROUNDS) {
+				throw new Error(`Language model did not finish task ${taskId} within ${LM_MAX_TOOL_ROUNDS} tool rounds`);
+			}
+
+			const response = await model.sendRequest(messages, {
+				justification: `RALPH Runner executes user story ${taskId}.`,
+				tools,
+			}, requestCancel.token);
+
+			const parts: (vscode.LanguageModelTextPart | vscode.LanguageModelToolCallPart)[] = [];
+			const calls: vscode.LanguageModelToolCallPart[] = [];
+			for await (const part of response.stream) {
+				if (part instanceof vscode.LanguageModelTextPart) {
+					parts.push(part);
+					appendStoryLog(logPath, part.value);
+				} else if (part instanceof vscode.LanguageModelToolCallPart) {
+					parts.push(part);
+					calls.push(part);
+				}
+			}
+			messages.push(vscode.LanguageModelChatMessage.Assistant(parts));
+
+			if (calls.length === 0) {
+				finalReply = parts.map(p => p instanceof vscode.LanguageModelTextPart ? p.value : '').join('').trim();
+				break;
+			}
+
+			const results: vscode.LanguageModelToolResultPart[] = [];
+			for (const call of calls) {
+				const input = JSON.stringify(call.input);
+				log(`  🔧 ${call.name} ${input.length > 120 ? input.slice(0, 117) + '...' : input}`);
+				appendStoryLog(logPath, `\n\n> 🔧 \`${call.name}\` ${input}\n\n`);
+				let content: unknown[];
+				try {
+					const toolInput = { ...call.input, [LM_TOOL_KEY_FIELD]: toolKey };
+					const result = await vscode.lm.invokeTool(call.name, { input: toolInput, toolInvocationToken: undefined }, requestCancel.token);
+					content = result.content;
+				} catch (e: unknown) {
+					const msg = e instanceof Error ? e.message : String(e);
+					appendStoryLog(logPath, `> ⚠ ${msg}\n\n`);
+					content = [new vscode.LanguageModelTextPart(`Error: ${msg}`)];
+				}
+				results.push(new vscode.LanguageModelToolResultPart(call.callId, content));
+			}
+			messages.push(vscode.LanguageModelChatMessage.User(results));
+		}
+	} catch (e: unknown) {
+		if (cancelToken?.token.isCancellationRequested) { throw new Error('Cancelled by user'); }
+		if (timedOut) {
+			log(`  ⚠ ${model.id} did not finish within ${Math.round(timeoutMs / 1000)}s.`);
+			throw new Error(`Copilot timed out on task ${taskId}`);
+		}
+		if (e instanceof vscode.LanguageModelError) {
+			throw new Error(`Language model error (${e.code}): ${e.message}`);
+		}
+		throw e;
+	} finally {
+		lmToolRequests.delete(toolKey);
+		clearTimeout(timer);
+		cancelListener?.dispose();
+		requestCancel.dispose();
+	}
+
+	appendStoryLog(logPath, '\n');
+	RalphStateManager.setCompleted(workspaceRoot, taskId);
+	log(`  ✓ ${model.id} finished task ${taskId} (elapsed ${Math.round((Date.now() - startTime) / 1000)}s)`);
+	return { model: model.id, ...(finalReply ? { summary: finalReply } : {}) };
+}
+
+/**
+ * Resolve a path given to a ralph_* tool: relative paths are taken from the
+ * folder the story runs in (`base`). Paths outside the workspace are
+ * rejected, including ones that leave it through a symlink.
+ */
+function resolveToolPath(base: string, filePath: string): { root: string; absolute: string } {
+	const absolute = path.resolve(base, filePath);
+	const real = resolveRealPath(absolute);
+	const root = getWorkspaceRoots().find(r => {
+		const realRoot = resolveRealPath(r);
+		return real === realRoot || real.startsWith(realRoot + path.sep);
+	});
+	if (!root) { throw new Error(`${filePath} is outside the workspace`); }
+	return { root, absolute };
+}
+
+/**
+ * The real path of a file that may not exist yet: symlinks are resolved up
+ * to its nearest existing ancestor. Throws for a dangling symlink.
+ */
+function resolveRealPath(absolute: string): string {
+	const missing: string[] = [];
+	let existing = absolute;
+	while (!fs.lstatSync(existing, { throwIfNoEntry: false })) {
+		const parent = path.dirname(existing);
+		if (parent === existing) { break; }
+		missing.unshift(path.basename(existing));
+		existing = parent;
+	}
+	return path.join(fs.realpathSync(existing), ...missing);
+}
+
+function assertWritable(root: string, absolute: string): void {
+	if (absolute === getPrdPath(root)) {
+		throw new Error(`${toWorkspaceRelative(root, absolute)} must not be modified — progress is tracked separately`);
+	}
+}
+
+function toolResult(text: string): vscode.LanguageModelToolResult {
+	return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(text)]);
+}
+
+/**
+ * A ralph_* tool that only serves RALPH's own conversations: a call must
+ * carry the key of a conversation in progress and no toolInvocationToken
+ * (chat requests have one). The tool gets the input without the key and the
+ * folder that conversation's story runs in.
+ */
+function ralphTool(invoke: (input: Record<string, string>, workspaceRoot: string) => Promise<vscode.LanguageModelToolResult>): vscode.LanguageModelTool<Record<string, string>> {
+	return {
+		invoke: options => {
+			const { [LM_TOOL_KEY_FIELD]: key, ...input } = options.input ?? {};
+			const request = key !== undefined ? lmToolRequests.get(key) : undefined;
+			if (options.toolInvocationToken !== undefined || !request) {
+				throw new Error('RALPH tools can only be used by RALPH Runner while it runs a story with the languageModel executor');
+			}
+			return invoke(input, request.workspaceRoot);
+		},
+	};
+}
+
+/** The ralph_* tools. Names and input schemas are declared in package.json. */
+const RALPH_TOOLS: Record<string, vscode.LanguageModelTool<Record<string, string>>> = {
+	ralph_readFile: ralphTool(async (input, base) => {
+		const { absolute } = resolveToolPath(base, input.path);
+		const content = fs.readFileSync(absolute, 'utf-8');
+		return toolResult(content.length > LM_READ_MAX_CHARS
+			? `${content.slice(0, LM_READ_MAX_CHARS)}\n… (truncated, ${content.length} characters in total)`
+			: content);
+	}),
+	ralph_writeFile: ralphTool(async (input, base) => {
+		const { root, absolute } = resolveToolPath(base, input.path);
+		assertWritable(root, absolute);
+		fs.mkdirSync(path.dirname(absolute), { recursive: true });
+		fs.writeFileSync(absolute, input.content, 'utf-8');
+		return toolResult(`Wrote ${toWorkspaceRelative(root, absolute)} (${input.content.length} characters).`);
+	}),
+	ralph_editFile: ralphTool(async (input, base) => {
+		const { root, absolute } = resolveToolPath(base, input.path);
+		assertWritable(root, absolute);
+		const content = fs.readFileSync(absolute, 'utf-8');
+		const occurrences = content.split(input.oldText).length - 1;
+		if (occurrences !== 1) {
+			throw new Error(`oldText must occur exactly once in ${toWorkspaceRelative(root, absolute)} (found ${occurrences})`);
+		}
+		fs.writeFileSync(absolute, content.replace(input.oldText, () => input.newText), 'utf-8');
+		return toolResult(`Edited ${toWorkspaceRelative(root, absolute)}.`);
+	}),
+	ralph_listFiles: ralphTool(async (input, root) => {
+		const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(root, input.pattern || '**/*'), '**/node_modules/**', LM_LIST_MAX_FILES);
+		const files = uris.map(u => toWorkspaceRelative(root, u.fsPath)).sort();
+		return toolResult(files.length > 0 ? files.join('\n') : 'No matching files.');
+	}),
+	ralph_runCommand: ralphTool(async (input, root) => {
+		const result = await runShellCommand(input.command, root, getConfig().VERIFY_TIMEOUT_MS, { signal: getCancelSignal() });
+		const status = result.timedOut ? 'timed out' : `exited with code ${result.exitCode}`;
+		return toolResult(`Command ${status}.\n${tailLines(result.output, 200)}`);
+	}),
+};
+
+// ── Status & Reset Commands ─────────────────────────────────────────────────
+
+async function showStatus(): Promise<void> {
+	const roots = getPrdRoots();
+	if (roots.length === 0) {
+		vscode.window.showErrorMessage('prd.json not found or invalid.');
+		return;
+	}
+
+	const summaries: string[] = [];
+	outputChannel.show(true);
+	for (const workspaceRoot of roots) {
+		const prd = parsePrd(workspaceRoot);
+		if (!prd) {
+			log(`${getFolderPrefix(workspaceRoot)}prd.json is invalid.`);
+			summaries.push(`${getFolderPrefix(workspaceRoot)}invalid prd.json`);
+			continue;
+		}
+
+		const progress = readProgress(workspaceRoot);
+		const doneIds = new Set(progress.filter(e => e.status === 'done').map(e => e.id));
+		const failedIds = new Set(progress.filter(e => e.status === 'failed').map(e => e.id));
+		const gaveUpIds = new Set(progress.filter(e => e.status === 'gave-up').map(e => e.id));
+		const skippedIds = new Set(progress.filter(e => e.status === 'skipped').map(e => e.id));
+
+		const total = prd.userStories.length;
+		const completed = prd.userStories.filter(s => doneIds.has(s.id)).length;
+		const failed = prd.userStories.filter(s => failedIds.has(s.id)).length;
+		const gaveUp = prd.userStories.filter(s => gaveUpIds.has(s.id)).length;
+		const skipped = prd.userStories.filter(s => skippedIds.has(s.id)).length;
+		const pending = total - completed - skipped;
+		const inProgress = RalphStateManager.getInProgressTaskIds(workspaceRoot).join(', ');
+		const nextPending = findNextPendingStory(prd, workspaceRoot);
+
+		const lines = [
+			`RALPH Status — ${prd.project}${isMultiRoot() ? ` [${getFolderName(workspaceRoot)}]` : ''}`,
+			``,
+			`✅ Completed: ${completed}/${total}`,
+			`❌ Failed: ${failed}`,
+			`🛑 Gave up: ${gaveUp}`,
+			`⏭ Skipped: ${skipped}`,
+			`⏳ Pending: ${pending}`,
+			`🔄 In Progress: ${inProgress || 'None'}`,
+			`📍 Next: ${nextPending ? `${nextPending.id} — ${nextPending.title}` : pending > 0 ? 'Blocked by dependencies' : 'All done!'}`,
+			``,
+			`Running: ${isRunning && activeRoot === workspaceRoot ? 'Yes' : 'No'}`
+		];
+		const lock = RalphStateManager.readRunLock(workspaceRoot);
+		if (lock && !heldLocks.has(workspaceRoot)) {
+			lines.push(`🔒 Locked by ${describeRunLock(lock)}`);
+		}
+
+		log(lines.join('\n'));
+		summaries.push(
+			`${getFolderPrefix(workspaceRoot)}${completed}/${total} stories done. ` +
+			`Next: ${nextPending ? nextPending.id : pending > 0 ? 'Blocked' : 'Complete!'}`
+		);
+	}
+
+	vscode.window.showInformationMessage(`RALPH: ${summaries.join(' | ')}`);
+}
+
+/**
+ * Let the user choose the active PRD for a folder among the files matching
+ * the `prdPath` setting, or browse for any JSON file. Returns true if the
+ * active PRD changed.
+ */
+async function selectPrd(): Promise<boolean> {
+	const workspaceRoot = await pickWorkspaceRoot('Select the workspace folder to choose a PRD for', false);
+	if (!workspaceRoot) { return false; }
+
+	const candidates = await refreshPrdCandidates(workspaceRoot);
+	const active = getPrdPath(workspaceRoot);
+	const items: (vscode.QuickPickItem & { file?: string })[] = candidates.map(file => ({
+		label: toWorkspaceRelative(workspaceRoot, file),
+		description: file === active ? 'active' : undefined,
+		file
+	}));
+	items.push({ label: '$(folder-opened) Browse…', description: 'Choose another JSON file' });
+
+	const selection = await vscode.window.showQuickPick(items, {
+		placeHolder: `Active PRD: ${toWorkspaceRelative(workspaceRoot, active)} — select a plan`
+	});
+	if (!selection) { return false; }
+
+	let file = selection.file;
+	if (!file) {
+		const uris = await vscode.window.showOpenDialog({
+			title: 'Select a PRD file',
+			defaultUri: vscode.Uri.file(workspaceRoot),
+			canSelectMany: false,
+			canSelectFolders: false,
+			filters: { 'JSON': ['json'] },
+			openLabel: 'Use as PRD'
+		});
+		if (!uris || uris.length === 0) { return false; }
+		file = uris[0].fsPath;
+	}
+
+	if (file === active) { return false; }
+	if (isRunning && activeRoot === workspaceRoot) {
+		vscode.window.showWarningMessage('RALPH: Stop the current run before switching plans.');
+		return false;
+	}
+
+	await setActivePrd(workspaceRoot, file);
+	log(`${getFolderPrefix(workspaceRoot)}Active PRD set to ${toWorkspaceRelative(workspaceRoot, file)}`);
+	vscode.window.showInformationMessage(`RALPH: Active PRD is now ${toWorkspaceRelative(workspaceRoot, file)}.`);
+	return true;
+}
+
+async function exportProgress(): Promise<void> {
+	const workspaceRoot = await pickWorkspaceRoot('Select the workspace folder to export progress for');
+	if (!workspaceRoot) { return; }
+
+	try {
+		const progressPath = exportLegacyProgress(workspaceRoot);
+		log(`Exported progress to ${progressPath}`);
+		const action = await vscode.window.showInformationMessage(`RALPH: Progress exported to ${toWorkspaceRelative(workspaceRoot, progressPath)}.`, 'Open');
+		if (action === 'Open') {
+			const doc = await vscode.workspace.openTextDocument(progressPath);
+			vscode.window.showTextDocument(doc);
+		}
+	} catch (e: unknown) {
+		const msg = e instanceof Error ? e.message : String(e);
+		vscode.window.showErrorMessage(`RALPH: Could not export progress: ${msg}`);
+	}
+}
+
+async function resetStory(): Promise<void> {
+	const workspaceRoot = await pickWorkspaceRoot('Select the workspace folder to reset a story in');
+	if (!workspaceRoot) { return; }
+
+	const prd = parsePrd(workspaceRoot);
+	if (!prd) {
+		vscode.window.showErrorMessage('prd.json not found or invalid.');
+		return;
+	}
+
+	const progress = readProgress(workspaceRoot);
+	const trackedIds = new Set(progress.map(e => e.id));
+	const trackedStories = prd.userStories.filter(s => trackedIds.has(s.id));
+
+	if (trackedStories.length === 0) {
+		vscode.window.showInformationMessage('No completed or failed stories to reset.');
+		return;
+	}
+
+	const items = trackedStories.map(s => {
+		const entry = progress.find(e => e.id === s.id);
+		const attempts = getStoryHistory(workspaceRoot, s.id).length;
+		return {
+			label: `${s.id} — ${s.title}`,
+			description: entry ? `[${entry.status}] ${entry.notes}` : '',
+			detail: `${attempts} attempt(s) recorded`,
+			storyId: s.id
+		};
+	});
+
+	const selection = await vscode.window.showQuickPick(items, {
+		placeHolder: 'Select a user story to reset'
+	});
 
-		const nextStory = findNextPendingStory(prd, workspaceRoot);
+	if (selection) {
+		resetStoryById(workspaceRoot, selection.storyId);
+		vscode.window.showInformationMessage(`Story ${selection.storyId} reset.`);
+	}
+}
 
-		if (!nextStory) {
-			log('🎉 All user stories completed!');
-			vscode.window.showInformationMessage('RALPH: All user stories completed!');
-			break;
+/**
+ * Command handler for ralph-runner.rollbackStory. Restores the folder to the
+ * checkpoint taken before the story's most recent attempt and resets the
+ * story so it runs again. Accepts a story id, a tree node, or asks.
+ */
+async function rollbackStory(arg?: string | StoryTreeNode): Promise<void> {
+	let workspaceRoot: string | undefined;
+	let storyId: string | undefined;
+
+	if (arg !== undefined && typeof arg !== 'string') {
+		if (arg.kind !== 'story') { return; }
+		workspaceRoot = arg.root;
+		storyId = arg.story.id;
+	} else if (typeof arg === 'string') {
+		const candidates = getPrdRoots().filter(root => getLatestCheckpoint(root, arg));
+		if (candidates.length === 0) {
+			vscode.window.showErrorMessage(`RALPH: No checkpoint recorded for story ${arg}.`);
+			return;
+		}
+		workspaceRoot = candidates.length === 1
+			? candidates[0]
+			: await pickFromRoots(candidates, `Story ${arg} has checkpoints in several folders — select one`);
+		storyId = arg;
+	} else {
+		workspaceRoot = await pickWorkspaceRoot('Select the workspace folder to roll back a story in');
+		if (!workspaceRoot) { return; }
+		const root = workspaceRoot;
+
+		const items = (parsePrd(root)?.userStories ?? []).flatMap(story => {
+			const attempt = getLatestCheckpoint(root, story.id);
+			return attempt?.checkpoint ? [{
+				label: `${story.id} — ${story.title}`,
+				description: `[${attempt.outcome}] ${new Date(attempt.startedAt).toLocaleString()}`,
+				detail: `Checkpoint ${attempt.checkpoint.slice(0, 10)}`,
+				storyId: story.id
+			}] : [];
+		});
+		if (items.length === 0) {
+			vscode.window.showInformationMessage('RALPH: No story checkpoints recorded yet.');
+			return;
 		}
+		const selection = await vscode.window.showQuickPick(items, {
+			placeHolder: 'Select a user story to roll back'
+		});
+		storyId = selection?.storyId;
+	}
+	if (!workspaceRoot || !storyId) { return; }
 
-		log('');
-		log(`──── Loop ${loopsExecuted + 1}/${config.MAX_AUTONOMOUS_LOOPS} ────`);
-		log(`Story ${nextStory.id}: ${nextStory.title}`);
-		log(`Description: ${nextStory.description}`);
-		log(`Priority: ${nextStory.priority}`);
+	if (isRunning && activeRoot === workspaceRoot) {
+		vscode.window.showWarningMessage('RALPH: Stop the current run before rolling back a story.');
+		return;
+	}
 
-		// Guard: ensure no other task is inprogress before queuing this one.
-		await ensureNoActiveTask(workspaceRoot);
+	const attempt = getLatestCheckpoint(workspaceRoot, storyId);
+	if (!attempt?.checkpoint) {
+		vscode.window.showErrorMessage(`RALPH: No checkpoint recorded for story ${storyId}.`);
+		return;
+	}
 
-		// ── Persist "inprogress" state to .ralph/task-<id>-status ───────────
-		RalphStateManager.setInProgress(workspaceRoot, nextStory.id);
-		log(`  Task state written: .ralph/task-${nextStory.id}-status = inprogress`);
+	const confirm = await vscode.window.showWarningMessage(
+		`Roll back ${getFolderPrefix(workspaceRoot)}to the state before ${storyId} started (${new Date(attempt.startedAt).toLocaleString()})? All file changes made since then are discarded, including those of later stories. Commits are kept.`,
+		{ modal: true },
+		'Roll Back'
+	);
+	if (confirm !== 'Roll Back') { return; }
 
-		try {
-			// executeStory returns only after Copilot has written "completed"
-			// to .ralph/task-<id>-status (or after a timeout).
-			await executeStory(nextStory, workspaceRoot);
+	try {
+		await rollbackToCheckpoint(workspaceRoot, attempt.checkpoint);
+	} catch (e: unknown) {
+		const msg = e instanceof Error ? e.message : String(e);
+		log(`ERROR: Could not roll back ${storyId}: ${msg}`);
+		vscode.window.showErrorMessage(`RALPH: Could not roll back ${storyId}: ${msg}`);
+		return;
+	}
 
-			// Safety net: ensure the lock is always cleared on success
-			RalphStateManager.setCompleted(workspaceRoot, nextStory.id);
+	removeProgressEntry(workspaceRoot, storyId, 'Rolled back by user');
+	log(`Story ${storyId} rolled back by user.`);
+	vscode.window.showInformationMessage(`RALPH: Story ${storyId} rolled back.`);
+}
 
-			// Write completion to progress.txt (prd.json is never modified)
-			writeProgressEntry(workspaceRoot, nextStory.id, 'done', 'Completed successfully');
+// ── Story Tree View ─────────────────────────────────────────────────────────
+// Activity-bar view listing every user story from prd.json grouped by status,
+// with acceptance criteria as children and inline run / reset / skip / prompt
+// actions. Refreshed whenever prd.json or the .ralph/ state changes. When more
+// than one workspace folder has a prd.json, each folder is a top-level node.
+
+type StoryGroup = 'inprogress' | 'pending' | 'failed' | 'skipped' | 'done';
+
+const STORY_GROUPS: { group: StoryGroup; label: string; icon: string }[] = [
+	{ group: 'inprogress', label: 'In Progress', icon: 'sync' },
+	{ group: 'pending', label: 'Pending', icon: 'circle-large-outline' },
+	{ group: 'failed', label: 'Failed', icon: 'error' },
+	{ group: 'skipped', label: 'Skipped', icon: 'debug-step-over' },
+	{ group: 'done', label: 'Done', icon: 'pass' },
+];
+
+type StoryTreeNode =
+	| { kind: 'folder'; root: string }
+	| { kind: 'group'; root: string; group: StoryGroup; stories: StoryTreeNode[] }
+	| { kind: 'story'; root: string; story: UserStory; group: StoryGroup; entry?: ProgressEntry }
+	| { kind: 'detail'; label: string; icon: string };
+
+class StoryTreeProvider implements vscode.TreeDataProvider<StoryTreeNode> {
+	private readonly changeEmitter = new vscode.EventEmitter<void>();
+	readonly onDidChangeTreeData = this.changeEmitter.event;
+
+	refresh(): void {
+		this.changeEmitter.fire();
+	}
 
-			log(`✅ Story ${nextStory.id} completed.`);
-		} catch (err: unknown) {
-			const errMsg = err instanceof Error ? err.message : String(err);
-			log(`❌ Story ${nextStory.id} failed: ${errMsg}`);
+	getChildren(node?: StoryTreeNode): StoryTreeNode[] {
+		if (!node) {
+			const roots = getPrdRoots();
+			return roots.length > 1
+				? roots.map(root => ({ kind: 'folder', root }))
+				: roots.flatMap(root => this.getGroups(root));
+		}
+		if (node.kind === 'folder') { return this.getGroups(node.root); }
+		if (node.kind === 'group') { return node.stories; }
+		if (node.kind === 'story') {
+			const details: StoryTreeNode[] = node.story.acceptanceCriteria.map(ac => ({ kind: 'detail', label: ac, icon: 'checklist' }));
+			if (node.story.dependsOn && node.story.dependsOn.length > 0) {
+				details.push({ kind: 'detail', label: `Depends on: ${node.story.dependsOn.join(', ')}`, icon: 'references' });
+			}
+			return details;
+		}
+		return [];
+	}
 
-			// Always release the inprogress lock so the loop can advance
-			RalphStateManager.setCompleted(workspaceRoot, nextStory.id);
+	getTreeItem(node: StoryTreeNode): vscode.TreeItem {
+		if (node.kind === 'folder') {
+			const item = new vscode.TreeItem(getFolderName(node.root), vscode.TreeItemCollapsibleState.Expanded);
+			item.id = `folder:${node.root}`;
+			item.iconPath = vscode.ThemeIcon.Folder;
+			item.resourceUri = vscode.Uri.file(node.root);
+			item.contextValue = 'ralphFolder';
+			return item;
+		}
 
-			// Write failure to progress.txt (prd.json is never modified)
-			writeProgressEntry(workspaceRoot, nextStory.id, 'failed', errMsg);
+		if (node.kind === 'group') {
+			const meta = STORY_GROUPS.find(g => g.group === node.group)!;
+			const item = new vscode.TreeItem(meta.label, node.group === 'done'
+				? vscode.TreeItemCollapsibleState.Collapsed
+				: vscode.TreeItemCollapsibleState.Expanded);
+			item.id = `group:${node.root}:${node.group}`;
+			item.description = `${node.stories.length}`;
+			item.iconPath = new vscode.ThemeIcon(meta.icon);
+			item.contextValue = 'ralphGroup';
+			return item;
 		}
 
-		loopsExecuted++;
+		if (node.kind === 'story') {
+			const { story, entry } = node;
+			const item = new vscode.TreeItem(`${story.id}: ${story.title}`, vscode.TreeItemCollapsibleState.Collapsed);
+			item.id = `story:${node.root}:${story.id}`;
+			item.description = entry ? `P${story.priority} · ${entry.notes.split('\n')[0]}` : `P${story.priority}`;
+			item.tooltip = new vscode.MarkdownString(
+				`**${story.id} — ${story.title}**\n\n${story.description}\n\n` +
+				`Priority: ${story.priority}` +
+				(entry ? `\n\nLast progress (${entry.status}, ${entry.timestamp}): ${entry.notes}` : '')
+			);
+			item.iconPath = new vscode.ThemeIcon(STORY_GROUPS.find(g => g.group === node.group)!.icon);
+			item.contextValue = `ralphStory.${node.group}`;
+			return item;
+		}
 
-		// Small delay to let VS Code settle
-		await sleep(config.LOOP_DELAY_MS);
+		const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.None);
+		item.iconPath = new vscode.ThemeIcon(node.icon);
+		item.tooltip = node.label;
+		return item;
 	}
 
-	if (loopsExecuted >= config.MAX_AUTONOMOUS_LOOPS && isRunning) {
-		log(`Reached MAX_AUTONOMOUS_LOOPS (${config.MAX_AUTONOMOUS_LOOPS}). Pausing. Run 'RALPH: Start' to continue.`);
-		vscode.window.showInformationMessage(
-			`RALPH paused after ${config.MAX_AUTONOMOUS_LOOPS} steps. Run 'RALPH: Start' to resume.`
-		);
+	private getGroups(workspaceRoot: string): StoryTreeNode[] {
+		if (!fs.existsSync(getPrdPath(workspaceRoot))) { return []; }
+
+		// Validate quietly — problems are already reported through diagnostics
+		let prd: PrdFile | null;
+		try {
+			prd = validatePrdText(fs.readFileSync(getPrdPath(workspaceRoot), 'utf-8')).prd;
+		} catch {
+			prd = null;
+		}
+		if (!prd) { return []; }
+
+		const progress = readProgress(workspaceRoot);
+		const inProgressIds = new Set(RalphStateManager.getInProgressTaskIds(workspaceRoot));
+		const byGroup = new Map<StoryGroup, StoryTreeNode[]>(STORY_GROUPS.map(g => [g.group, []]));
+
+		const sorted = [...prd.userStories].sort((a, b) => a.priority - b.priority);
+		for (const story of sorted) {
+			const entry = progress.find(e => e.id === story.id);
+			let group: StoryGroup = 'pending';
+			if (inProgressIds.has(story.id)) {
+				group = 'inprogress';
+			} else if (entry?.status === 'done') {
+				group = 'done';
+			} else if (entry?.status === 'skipped') {
+				group = 'skipped';
+			} else if (entry?.status === 'failed' || entry?.status === 'gave-up') {
+				group = 'failed';
+			}
+			byGroup.get(group)!.push({ kind: 'story', root: workspaceRoot, story, group, entry });
+		}
+
+		return STORY_GROUPS
+			.filter(g => byGroup.get(g.group)!.length > 0)
+			.map(g => ({ kind: 'group', root: workspaceRoot, group: g.group, stories: byGroup.get(g.group)! }));
 	}
+}
 
-	isRunning = false;
-	cancelToken = null;
-	updateStatusBar('idle');
+function resetStoryById(workspaceRoot: string, storyId: string): void {
+	resetStoryState(workspaceRoot, storyId);
+	log(`Story ${storyId} reset by user.`);
 }
 
-function stopRalph(): void {
-	if (!isRunning) {
-		vscode.window.showInformationMessage('RALPH is not running.');
+async function skipStory(workspaceRoot: string, storyId: string): Promise<void> {
+	if (RalphStateManager.getTaskStatus(workspaceRoot, storyId) === 'inprogress') {
+		vscode.window.showWarningMessage(`RALPH: Story ${storyId} is in progress and cannot be skipped.`);
 		return;
 	}
-	cancelToken?.cancel();
-	isRunning = false;
-	log('RALPH Runner stopped by user.');
-	vscode.window.showInformationMessage('RALPH stopped.');
-	updateStatusBar('idle');
+
+	writeProgressEntry(workspaceRoot, storyId, 'skipped', 'Skipped by user');
+	log(`Story ${storyId} skipped by user.`);
 }
 
-// ── Story Execution ─────────────────────────────────────────────────────────
+/**
+ * Command handler for ralph-runner.openStoryPrompt. Previews the rendered
+ * prompt of a tree node's story, or of a story picked by the user.
+ */
+async function previewStoryPrompt(node?: StoryTreeNode): Promise<void> {
+	if (node) {
+		if (node.kind === 'story') { await openStoryPrompt(node.root, node.story.id); }
+		return;
+	}
 
-async function executeStory(story: UserStory, workspaceRoot: string): Promise<void> {
-	const prompt = buildCopilotPromptForStory(story, workspaceRoot);
-	log('  Delegating user story to Copilot...');
-	await sendToCopilot(prompt, story.id, workspaceRoot);
+	const workspaceRoot = await pickWorkspaceRoot('Select the workspace folder to preview a prompt in');
+	if (!workspaceRoot) { return; }
+	const storyId = await pickStory(workspaceRoot, 'Select a user story to preview its prompt');
+	if (storyId) { await openStoryPrompt(workspaceRoot, storyId); }
 }
 
-// ── Copilot Integration ─────────────────────────────────────────────────────
-
-function buildCopilotPromptForStory(story: UserStory, workspaceRoot: string): string {
-	const lines = [
-		`You are executing User Story ${story.id} of the current PRD.`,
-		`Title: ${story.title}`,
-		`Description: ${story.description}`,
-		`Priority: ${story.priority}`,
-		`Workspace root: ${workspaceRoot}`,
-		'',
-		'Acceptance Criteria:',
-		...story.acceptanceCriteria.map((ac, i) => `  ${i + 1}. ${ac}`),
-		'',
-		'Execute the following task:',
-		'',
-		story.description,
-		'',
-		'Greedily execute as many sub-tasks as possible in a single pass.',
-		'If something partially fails, keep all the parts that passed and do not revert them.',
-		'Do not ask questions — execute directly.',
-		'Make the actual code changes to the files in the workspace.',
-		'After completing all changes, confirm what was done.',
-		'',
-		'⚠️ IMPORTANT: Do NOT modify prd.json. Never edit, overwrite, or update prd.json for any reason.',
-		'Progress is tracked separately — your only responsibility is to execute the task and write the completion signal below.',
-		'',
-		'━━━ TASK COMPLETION SIGNAL (REQUIRED) ━━━',
-		`When you have fully completed ALL work for this task, write the exact text \`completed\``,
-		`(nothing else, no newline) to the file: ${path.join(workspaceRoot, RALPH_DIR, `task-${story.id}-status`).replace(/\\/g, '/')}`,
-		'This is how RALPH knows the task is done and can move to the next step.',
-		'Do NOT skip this step — without it RALPH will time out waiting.',
-	];
+/** Opens the prompt RALPH would send for a story in an untitled editor. */
+async function openStoryPrompt(workspaceRoot: string, storyId: string): Promise<void> {
+	const story = parsePrd(workspaceRoot)?.userStories.find(s => s.id === storyId);
+	if (!story) {
+		vscode.window.showErrorMessage(`RALPH: Story ${storyId} not found in prd.json.`);
+		return;
+	}
 
-	return lines.join('\n');
+	const previousFailure = getConfig().RETRY_INCLUDE_FAILURE_REASON
+		? getStoryAttempts(workspaceRoot, storyId)?.lastError
+		: undefined;
+	const doc = await vscode.workspace.openTextDocument({
+		content: buildCopilotPromptForStory(story, workspaceRoot, previousFailure),
+		language: 'markdown'
+	});
+	vscode.window.showTextDocument(doc, { preview: true });
 }
 
-async function sendToCopilot(prompt: string, taskId: string, workspaceRoot: string): Promise<void> {
-	log('  Sending prompt to Copilot Chat...');
+// ── Dashboard ───────────────────────────────────────────────────────────────
+// A webview with the progress of every folder's PRD: a progress bar, an
+// estimate of the time remaining, per-story attempts, durations and failure
+// reasons, and a timeline of the current run. Built entirely from the
+// progress store and the .ralph/ state, so it also covers runs started in an
+// earlier session. The panel is re-rendered whenever that state changes.
+
+let dashboardPanel: vscode.WebviewPanel | undefined;
+let dashboardRefreshTimer: NodeJS.Timeout | undefined;
+
+/** Message posted by the dashboard's buttons. */
+interface DashboardMessage {
+	command: 'start' | 'pause' | 'resume' | 'stop' | 'reset' | 'history';
+	root?: string;
+	storyId?: string;
+}
 
-	try {
-		await vscode.commands.executeCommand('workbench.action.chat.open', {
-			query: prompt,
-			isPartialQuery: false
-		});
-	} catch {
-		// Fallback: try older command API
-		try {
-			await vscode.commands.executeCommand('workbench.panel.chat.view.copilot.focus');
-			await sleep(1000);
-			await vscode.commands.executeCommand('workbench.action.chat.open', prompt);
-		} catch {
-			log('  WARNING: Could not programmatically send to Copilot. Copying to clipboard.');
-			await vscode.env.clipboard.writeText(prompt);
-			await vscode.commands.executeCommand('workbench.action.chat.open');
-			log('  Prompt copied to clipboard. Paste into Copilot Chat.');
-		}
+/** Command handler for ralph-runner.showDashboard. */
+function showDashboard(): void {
+	if (dashboardPanel) {
+		dashboardPanel.reveal();
+		return;
 	}
 
-	// Poll the .ralph status file until Copilot writes "completed" to it
-	await waitForCopilotCompletion(taskId, workspaceRoot);
+	dashboardPanel = vscode.window.createWebviewPanel('ralph-runner.dashboard', 'RALPH Dashboard', vscode.ViewColumn.Active, {
+		enableScripts: true,
+		retainContextWhenHidden: false,
+	});
+	dashboardPanel.iconPath = new vscode.ThemeIcon('dashboard');
+	dashboardPanel.webview.html = buildDashboardPage(buildDashboardContent());
+	dashboardPanel.webview.onDidReceiveMessage((message: DashboardMessage) => handleDashboardMessage(message));
+	dashboardPanel.onDidChangeViewState(() => refreshDashboard());
+	dashboardPanel.onDidDispose(() => {
+		dashboardPanel = undefined;
+		clearTimeout(dashboardRefreshTimer);
+	});
 }
 
 /**
- * Polls .ralph/task-<id>-status until Copilot writes "completed" to it.
- * Enforces a minimum wait (copilotMinWaitMs) before checking so that Copilot
- * has time to begin working before the first read.
- * Throws if the timeout is exceeded without seeing "completed".
+ * Re-render the dashboard's content (if it is open). Calls are coalesced, as
+ * a single story writes several state files in quick succession.
  */
-async function waitForCopilotCompletion(taskId: string, workspaceRoot: string): Promise<void> {
-	const config = getConfig();
-	log(`  Waiting for Copilot to write "completed" to .ralph/task-${taskId}-status...`);
-
-	const startTime = Date.now();
-
-	while (Date.now() - startTime < config.COPILOT_TIMEOUT_MS) {
-		if (cancelToken?.token.isCancellationRequested) {
-			throw new Error('Cancelled by user');
-		}
-
-		await sleep(config.COPILOT_RESPONSE_POLL_MS);
-		const elapsed = Date.now() - startTime;
+function refreshDashboard(): void {
+	if (!dashboardPanel) { return; }
+	clearTimeout(dashboardRefreshTimer);
+	dashboardRefreshTimer = setTimeout(() => {
+		dashboardPanel?.webview.postMessage({ type: 'update', html: buildDashboardContent() });
+	}, 250);
+}
 
-		// Enforce a minimum wait before the first status check
-		if (elapsed < config.COPILOT_MIN_WAIT_MS) {
-			log(`  … minimum wait in progress (${Math.round(elapsed / 1000)}s / ${Math.round(config.COPILOT_MIN_WAIT_MS / 1000)}s)`);
-			continue;
-		}
+async function handleDashboardMessage(message: DashboardMessage): Promise<void> {
+	switch (message.command) {
+		case 'start':
+		case 'pause':
+		case 'resume':
+		case 'stop':
+			await vscode.commands.executeCommand(`ralph-runner.${message.command}`);
+			break;
+		case 'history':
+			await showHistory();
+			break;
+		case 'reset':
+			if (message.root && message.storyId && getWorkspaceRoots().includes(message.root)) {
+				resetStoryById(message.root, message.storyId);
+			}
+			break;
+	}
+	refreshDashboard();
+}
 
-		const status = RalphStateManager.getTaskStatus(workspaceRoot, taskId);
-		if (status === 'completed') {
-			log(`  ✓ Copilot wrote "completed" to .ralph/task-${taskId}-status (elapsed ${Math.round(elapsed / 1000)}s)`);
-			return;
+/** The static page; its #content is replaced by later updates. */
+function buildDashboardPage(content: string): string {
+	const nonce = crypto.randomBytes(16).toString('base64');
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>RALPH Dashboard</title>
+<style>
+	body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 16px 16px; }
+	h1 { font-size: 1.4em; margin-bottom: 4px; }
+	h2 { font-size: 1.1em; margin-top: 20px; }
+	.meta { color: var(--vscode-descriptionForeground); margin-bottom: 12px; }
+	.actions button { margin-right: 6px; }
+	button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; }
+	button:hover { background: var(--vscode-button-hoverBackground); }
+	button:disabled { opacity: 0.5; cursor: default; }
+	button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+	.bar { display: flex; height: 14px; background: var(--vscode-editorWidget-background); border: 1px solid var(--vscode-widget-border, transparent); margin: 8px 0; }
+	.bar span { display: block; height: 100%; }
+	.done { background: var(--vscode-testing-iconPassed, #3fb950); }
+	.skipped { background: var(--vscode-disabledForeground, #888); }
+	.failed, .gave-up { background: var(--vscode-testing-iconFailed, #f85149); }
+	.inprogress { background: var(--vscode-progressBar-background, #0e70c0); }
+	.counts span { margin-right: 14px; }
+	table { border-collapse: collapse; width: 100%; }
+	th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-widget-border, rgba(128,128,128,0.2)); vertical-align: top; }
+	th { color: var(--vscode-descriptionForeground); font-weight: normal; }
+	td.num { text-align: right; white-space: nowrap; }
+	.status { display: inline-block; padding: 0 6px; border-radius: 8px; color: var(--vscode-editor-background); }
+	.status.pending { background: var(--vscode-descriptionForeground); }
+	.reason { color: var(--vscode-errorForeground); white-space: pre-wrap; max-width: 40em; }
+	.timeline .row { display: flex; align-items: center; margin: 2px 0; }
+	.timeline .label { width: 9em; flex: none; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+	.timeline .track { position: relative; flex: 1; height: 12px; }
+	.timeline .track span { position: absolute; height: 100%; min-width: 2px; }
+	.empty { color: var(--vscode-descriptionForeground); font-style: italic; }
+</style>
+</head>
+<body>
+<div id="content">${content}</div>
+<script nonce="${nonce}">
+	const vscode = acquireVsCodeApi();
+	document.addEventListener('click', event => {
+		const button = event.target.closest('button[data-command]');
+		if (!button) { return; }
+		vscode.postMessage({ command: button.dataset.command, root: button.dataset.root, storyId: button.dataset.story });
+	});
+	window.addEventListener('message', event => {
+		if (event.data.type === 'update') {
+			document.getElementById('content').innerHTML = event.data.html;
 		}
+	});
+</script>
+</body>
+</html>`;
+}
 
-		log(`  … still waiting for Copilot to complete task ${taskId} (status: ${status}, elapsed ${Math.round(elapsed / 1000)}s)`);
+function buildDashboardContent(): string {
+	const roots = getPrdRoots();
+	if (roots.length === 0) {
+		return '<h1>RALPH Dashboard</h1><p class="empty">No prd.json found. Use RALPH: Generate PRD to create one.</p>';
 	}
-
-	log(`  ⚠ Copilot timed out after ${Math.round(config.COPILOT_TIMEOUT_MS / 1000)}s without writing "completed" — proceeding.`);
-	throw new Error(`Copilot timed out on task ${taskId}`);
+	return roots.map(root => buildFolderDashboard(root)).join('');
 }
 
-/**
- * Block until no .ralph/task-*-status file contains "inprogress".
- * Under normal sequential operation this resolves immediately.
- * Polls every COPILOT_RESPONSE_POLL_MS and times out after COPILOT_TIMEOUT_MS.
- */
-async function ensureNoActiveTask(workspaceRoot: string): Promise<void> {
-	const config = getConfig();
+function buildFolderDashboard(workspaceRoot: string): string {
+	const folder = isMultiRoot() ? ` <span class="meta">[${escapeHtml(getFolderName(workspaceRoot))}]</span>` : '';
+	const prdPath = getPrdPath(workspaceRoot);
+	const prdName = escapeHtml(toWorkspaceRelative(workspaceRoot, prdPath));
 
-	if (!RalphStateManager.isAnyInProgress(workspaceRoot)) {
-		return; // Fast path — no active task
+	// Validated here rather than with parsePrd, which logs an error on every refresh
+	let text: string;
+	try {
+		text = fs.readFileSync(prdPath, 'utf-8');
+	} catch (e: unknown) {
+		const msg = e instanceof Error ? e.message : String(e);
+		return `<h1>RALPH Dashboard${folder}</h1><p class="reason">Could not read ${prdName}: ${escapeHtml(msg)}</p>`;
+	}
+	const { prd, problems } = validatePrdText(text);
+	if (!prd) {
+		const ranges = locatePrdProblems(text, problems);
+		const items = problems.map((problem, index) => {
+			const line = text.slice(0, ranges[index][0]).split('\n').length;
+			return `<li>Line ${line}: ${escapeHtml(formatPrdProblem(problem))}</li>`;
+		}).join('');
+		return `<h1>RALPH Dashboard${folder}</h1>
+<p class="empty">${prdName} has ${problems.length} problem(s); the dashboard is shown again once they are fixed.</p>
+<ul class="reason">${items}</ul>`;
 	}
 
-	const activeId = RalphStateManager.getInProgressTaskId(workspaceRoot);
-	log(`  ⏳ Task ${activeId} is still inprogress on disk — waiting for it to complete...`);
-
-	const waitStart = Date.now();
+	const store = readProgressStore(workspaceRoot);
+	const inProgressIds = new Set(RalphStateManager.getInProgressTaskIds(workspaceRoot));
+	const runState = RalphStateManager.readRunState(workspaceRoot);
+	const statusOf = (story: UserStory): string =>
+		inProgressIds.has(story.id) ? 'inprogress' : store.stories[story.id]?.status ?? 'pending';
 
-	while (Date.now() - waitStart < config.COPILOT_TIMEOUT_MS) {
-		if (cancelToken?.token.isCancellationRequested) {
-			throw new Error('Cancelled by user');
-		}
+	// Progress bar and counts
+	const total = prd.userStories.length;
+	const counts = new Map<string, number>();
+	prd.userStories.forEach(story => counts.set(statusOf(story), (counts.get(statusOf(story)) ?? 0) + 1));
+	const segments = ['done', 'skipped', 'inprogress', 'failed', 'gave-up']
+		.filter(status => counts.get(status))
+		.map(status => `<span class="${status}" style="width:${(100 * (counts.get(status) ?? 0) / total).toFixed(2)}%" title="${status}: ${counts.get(status)}"></span>`)
+		.join('');
+	const countLabels = ['done', 'inprogress', 'pending', 'failed', 'gave-up', 'skipped']
+		.map(status => `<span>${status}: <b>${counts.get(status) ?? 0}</b></span>`)
+		.join('');
+
+	// Estimate from the average duration of successful attempts
+	const doneDurations = Object.values(store.stories)
+		.flatMap(story => story.history.filter(a => a.outcome === 'done').map(a => a.durationMs));
+	const average = doneDurations.length > 0 ? doneDurations.reduce((a, b) => a + b, 0) / doneDurations.length : undefined;
+	const remaining = prd.userStories.filter(story => !['done', 'skipped', 'gave-up'].includes(statusOf(story))).length;
+	const estimate = remaining === 0
+		? 'All stories resolved.'
+		: average !== undefined
+			? `About ${formatDuration(average * remaining)} remaining for ${remaining} stor${remaining === 1 ? 'y' : 'ies'} (average ${formatDuration(average)} per story).`
+			: `${remaining} stor${remaining === 1 ? 'y' : 'ies'} remaining — no completed story yet to estimate from.`;
+
+	const running = isRunning && activeRoot === workspaceRoot;
+	const paused = !isRunning && runState?.status === 'paused';
+	const state = running ? 'Running' : paused ? 'Paused' : 'Idle';
+	const actions = [
+		`<button data-command="start" ${isRunning || paused ? 'disabled' : ''}>Start</button>`,
+		`<button data-command="pause" ${running ? '' : 'disabled'}>Pause</button>`,
+		`<button data-command="resume" ${paused ? '' : 'disabled'}>Resume</button>`,
+		`<button data-command="stop" ${isRunning || paused ? '' : 'disabled'}>Stop</button>`,
+		'<button class="secondary" data-command="history">History…</button>',
+	].join('');
 
-		await sleep(config.COPILOT_RESPONSE_POLL_MS);
+	return [
+		`<h1>${escapeHtml(prd.project)}${folder}</h1>`,
+		`<div class="meta">Branch ${escapeHtml(prd.branchName)} · ${state}${runState?.currentStoryId ? ` · working on ${escapeHtml(runState.currentStoryId)}` : ''}</div>`,
+		`<div class="actions">${actions}</div>`,
+		`<div class="bar">${segments}</div>`,
+		`<div class="counts">${countLabels}</div>`,
+		`<p>${escapeHtml(estimate)}</p>`,
+		buildRunTimeline(workspaceRoot, store, runState),
+		buildStoryTable(workspaceRoot, prd, store, statusOf),
+	].join('\n');
+}
 
-		if (!RalphStateManager.isAnyInProgress(workspaceRoot)) {
-			const waited = Math.round((Date.now() - waitStart) / 1000);
-			log(`  ✓ No active task on disk — proceeding (waited ${waited}s)`);
-			return;
-		}
+function buildStoryTable(workspaceRoot: string, prd: PrdFile, store: ProgressStore, statusOf: (story: UserStory) => string): string {
+	const rows = [...prd.userStories].sort((a, b) => a.priority - b.priority).map(story => {
+		const status = statusOf(story);
+		const history = store.stories[story.id]?.history ?? [];
+		const totalMs = history.reduce((sum, a) => sum + a.durationMs, 0);
+		const last = history[history.length - 1];
+		const lastError = status === 'failed' || status === 'gave-up'
+			? [...history].reverse().find(a => a.error)?.error
+			: undefined;
+		const resettable = ['done', 'failed', 'gave-up', 'skipped'].includes(status) && !isRunning;
+		return `<tr>
+			<td>${escapeHtml(story.id)}</td>
+			<td>${escapeHtml(story.title)}</td>
+			<td><span class="status ${status}">${status}</span></td>
+			<td class="num">${history.length}</td>
+			<td class="num">${last ? formatDuration(last.durationMs) : '—'}</td>
+			<td class="num">${history.length > 0 ? formatDuration(totalMs) : '—'}</td>
+			<td class="reason">${lastError ? escapeHtml(lastError.split('\n')[0]) : ''}</td>
+			<td>${resettable ? `<button class="secondary" data-command="reset" data-root="${escapeHtml(workspaceRoot)}" data-story="${escapeHtml(story.id)}">Reset</button>` : ''}</td>
+		</tr>`;
+	});
+	return `<h2>Stories</h2>
+<table>
+	<tr><th>ID</th><th>Title</th><th>Status</th><th>Attempts</th><th>Last</th><th>Total</th><th>Failure reason</th><th></th></tr>
+	${rows.join('\n')}
+</table>`;
+}
 
-		const stillActive = RalphStateManager.getInProgressTaskId(workspaceRoot);
-		log(`  … still waiting for task ${stillActive} to clear inprogress state`);
+/**
+ * The attempts of the current (or paused, or most recent) run on a shared
+ * time axis, including the story still in flight.
+ */
+function buildRunTimeline(workspaceRoot: string, store: ProgressStore, runState: RunState | undefined): string {
+	const runName = runState?.historyDir ?? listRunDirs(workspaceRoot)[0];
+	const runStart = runName ? parseRunName(runName) : undefined;
+	if (!runStart) {
+		return '<h2>Current run</h2><p class="empty">No run recorded yet.</p>';
 	}
 
-	// Timed out — clear the lock to prevent a permanent deadlock
-	const timedOutId = RalphStateManager.getInProgressTaskId(workspaceRoot);
-	if (timedOutId !== null) {
-		log(`  WARNING: Timed out waiting for task ${timedOutId} — clearing stale lock and proceeding.`);
-		RalphStateManager.clearStalledTask(workspaceRoot, timedOutId);
+	const bars: { id: string; start: number; end: number; outcome: string }[] = [];
+	for (const [id, story] of Object.entries(store.stories)) {
+		for (const attempt of story.history) {
+			const start = new Date(attempt.startedAt).getTime();
+			if (start >= runStart.getTime()) {
+				bars.push({ id, start, end: new Date(attempt.endedAt).getTime(), outcome: attempt.outcome });
+			}
+		}
 	}
+	if (runState?.currentStoryId && runState.storyStartedAt) {
+		bars.push({ id: runState.currentStoryId, start: new Date(runState.storyStartedAt).getTime(), end: Date.now(), outcome: 'inprogress' });
+	}
+	const heading = `<h2>${runState ? 'Current run' : 'Last run'} — started ${escapeHtml(runStart.toLocaleString())}</h2>`;
+	if (bars.length === 0) {
+		return `${heading}<p class="empty">No story finished in this run yet.</p>`;
+	}
+
+	bars.sort((a, b) => a.start - b.start);
+	const from = runStart.getTime();
+	const span = Math.max(Math.max(...bars.map(b => b.end)) - from, 1);
+	const rows = bars.map(bar => {
+		const left = (100 * (bar.start - from) / span).toFixed(2);
+		const width = (100 * (bar.end - bar.start) / span).toFixed(2);
+		return `<div class="row"><div class="label">${escapeHtml(bar.id)}</div><div class="track"><span class="${bar.outcome}" style="left:${left}%;width:${width}%" title="${escapeHtml(bar.id)}: ${bar.outcome}, ${formatDuration(bar.end - bar.start)}"></span></div></div>`;
+	});
+	return `${heading}<div class="timeline">${rows.join('')}</div><div class="meta">Span: ${formatDuration(span)}</div>`;
 }
 
-// ── Status & Reset Commands ─────────────────────────────────────────────────
+function formatDuration(ms: number): string {
+	const seconds = Math.round(ms / 1000);
+	if (seconds < 60) { return `${seconds}s`; }
+	const minutes = Math.round(seconds / 60);
+	if (minutes < 60) { return `${minutes} min`; }
+	return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
 
-async function showStatus(): Promise<void> {
-	const workspaceRoot = getWorkspaceRoot();
-	if (!workspaceRoot) { return; }
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+// ── Utilities ───────────────────────────────────────────────────────────────
 
+/** Quick pick of every story in a folder's PRD, by priority, with its status. */
+async function pickStory(workspaceRoot: string, placeHolder: string): Promise<string | undefined> {
 	const prd = parsePrd(workspaceRoot);
 	if (!prd) {
 		vscode.window.showErrorMessage('prd.json not found or invalid.');
-		return;
+		return undefined;
 	}
 
 	const progress = readProgress(workspaceRoot);
-	const doneIds = new Set(progress.filter(e => e.status === 'done').map(e => e.id));
-	const failedIds = new Set(progress.filter(e => e.status === 'failed').map(e => e.id));
+	const items = [...prd.userStories]
+		.sort((a, b) => a.priority - b.priority)
+		.map(s => {
+			const entry = progress.find(e => e.id === s.id);
+			return {
+				label: `${s.id} — ${s.title}`,
+				description: entry ? `[${entry.status}] ${entry.notes}` : '[pending]',
+				storyId: s.id
+			};
+		});
 
-	const total = prd.userStories.length;
-	const completed = prd.userStories.filter(s => doneIds.has(s.id)).length;
-	const failed = prd.userStories.filter(s => failedIds.has(s.id)).length;
-	const pending = total - completed;
-	const inProgress = RalphStateManager.getInProgressTaskId(workspaceRoot);
-	const nextPending = findNextPendingStory(prd, workspaceRoot);
-
-	const lines = [
-		`RALPH Status — ${prd.project}`,
-		``,
-		`✅ Completed: ${completed}/${total}`,
-		`❌ Failed: ${failed}`,
-		`⏳ Pending: ${pending}`,
-		`🔄 In Progress: ${inProgress || 'None'}`,
-		`📍 Next: ${nextPending ? `${nextPending.id} — ${nextPending.title}` : 'All done!'}`,
-		``,
-		`Running: ${isRunning ? 'Yes' : 'No'}`
-	];
+	const selection = await vscode.window.showQuickPick(items, { placeHolder });
+	return selection?.storyId;
+}
 
-	outputChannel.show(true);
-	log(lines.join('\n'));
-	vscode.window.showInformationMessage(
-		`RALPH: ${completed}/${total} stories done. ` +
-		`Next: ${nextPending ? nextPending.id : 'Complete!'}`
-	);
+/** Absolute paths of all workspace folders, in workspace order. */
+function getWorkspaceRoots(): string[] {
+	return (vscode.workspace.workspaceFolders ?? []).map(f => f.uri.fsPath);
 }
 
-async function resetStory(): Promise<void> {
-	const workspaceRoot = getWorkspaceRoot();
-	if (!workspaceRoot) { return; }
+/** Workspace folders that contain a prd.json. */
+function getPrdRoots(): string[] {
+	return getWorkspaceRoots().filter(root => fs.existsSync(getPrdPath(root)));
+}
 
-	const prd = parsePrd(workspaceRoot);
-	if (!prd) {
-		vscode.window.showErrorMessage('prd.json not found or invalid.');
-		return;
-	}
+function isMultiRoot(): boolean {
+	return getWorkspaceRoots().length > 1;
+}
 
-	const progress = readProgress(workspaceRoot);
-	const trackedIds = new Set(progress.map(e => e.id));
-	const trackedStories = prd.userStories.filter(s => trackedIds.has(s.id));
+function getFolderName(workspaceRoot: string): string {
+	return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(workspaceRoot))?.name ?? path.basename(workspaceRoot);
+}
 
-	if (trackedStories.length === 0) {
-		vscode.window.showInformationMessage('No completed or failed stories to reset.');
-		return;
-	}
+/** "<folder>: " in multi-root workspaces, "" otherwise — for user-facing messages. */
+function getFolderPrefix(workspaceRoot: string): string {
+	return isMultiRoot() ? `${getFolderName(workspaceRoot)}: ` : '';
+}
 
-	const items = trackedStories.map(s => {
-		const entry = progress.find(e => e.id === s.id);
-		return {
-			label: `${s.id} — ${s.title}`,
-			description: entry ? `[${entry.status}] ${entry.notes}` : '',
-			storyId: s.id
-		};
-	});
+/** Done / total story counts for a folder, or null if its prd.json is missing or invalid. */
+function getProgressSummary(workspaceRoot: string): { done: number; total: number } | null {
+	let prd: PrdFile | null;
+	try {
+		prd = validatePrdText(fs.readFileSync(getPrdPath(workspaceRoot), 'utf-8')).prd;
+	} catch {
+		return null;
+	}
+	if (!prd) { return null; }
+	const resolvedIds = getResolvedIds(readProgress(workspaceRoot));
+	return {
+		done: prd.userStories.filter(s => resolvedIds.has(s.id)).length,
+		total: prd.userStories.length
+	};
+}
 
-	const selection = await vscode.window.showQuickPick(items, {
-		placeHolder: 'Select a user story to reset'
-	});
+async function pickFromRoots(roots: string[], placeHolder: string): Promise<string | undefined> {
+	const selection = await vscode.window.showQuickPick(
+		roots.map(root => {
+			const summary = getProgressSummary(root);
+			return {
+				label: getFolderName(root),
+				description: summary ? `${summary.done}/${summary.total} stories done` : 'prd.json invalid',
+				root
+			};
+		}),
+		{ placeHolder }
+	);
+	return selection?.root;
+}
 
-	if (selection) {
-		removeProgressEntry(workspaceRoot, selection.storyId);
-		// Also clear the .ralph status file if present
-		RalphStateManager.clearStalledTask(workspaceRoot, selection.storyId);
-		vscode.window.showInformationMessage(`Story ${selection.storyId} reset.`);
-		log(`Story ${selection.storyId} reset by user.`);
+/**
+ * Resolve the workspace folder a command should act on. With a single
+ * candidate it is returned directly; with several the user picks one.
+ * When `requirePrd` is set only folders containing a prd.json are offered.
+ */
+async function pickWorkspaceRoot(placeHolder: string, requirePrd = true): Promise<string | undefined> {
+	const roots = requirePrd ? getPrdRoots() : getWorkspaceRoots();
+	if (roots.length === 0) {
+		vscode.window.showErrorMessage(requirePrd ? 'prd.json not found in any workspace folder.' : 'No workspace folder open.');
+		return undefined;
 	}
+	return roots.length === 1 ? roots[0] : pickFromRoots(roots, placeHolder);
 }
 
-// ── Utilities ───────────────────────────────────────────────────────────────
-
-function getWorkspaceRoot(): string | undefined {
-	const folders = vscode.workspace.workspaceFolders;
-	if (!folders || folders.length === 0) { return undefined; }
-	// Use the first workspace folder
-	return folders[0].uri.fsPath;
+/**
+ * Like pickWorkspaceRoot, but lets the user select several folders that
+ * contain a prd.json (all are pre-selected).
+ */
+async function pickWorkspaceRoots(placeHolder: string): Promise<string[] | undefined> {
+	const roots = getPrdRoots();
+	if (roots.length === 0) {
+		vscode.window.showErrorMessage(getWorkspaceRoots().length === 0
+			? 'No workspace folder open.'
+			: 'prd.json not found in any workspace folder.');
+		return undefined;
+	}
+	if (roots.length === 1) { return roots; }
+
+	const selection = await vscode.window.showQuickPick(
+		roots.map(root => {
+			const summary = getProgressSummary(root);
+			return {
+				label: getFolderName(root),
+				description: summary ? `${summary.done}/${summary.total} stories done` : 'prd.json invalid',
+				picked: true,
+				root
+			};
+		}),
+		{ placeHolder, canPickMany: true }
+	);
+	return selection && selection.length > 0 ? selection.map(s => s.root) : undefined;
 }
 
 function log(message: string): void {
 	const timestamp = new Date().toISOString().slice(11, 19);
-	outputChannel.appendLine(`[${timestamp}] ${message}`);
+	const line = `[${timestamp}] ${message}`;
+	outputChannel.appendLine(line);
+
+	// Tee into the run history while a run is being recorded
+	try {
+		if (activeRunLog) { fs.appendFileSync(activeRunLog, `${line}\n`, 'utf-8'); }
+		if (activeTranscript) { fs.appendFileSync(activeTranscript, `    ${line}\n`, 'utf-8'); }
+	} catch { /* history is best-effort */ }
+}
+
+/** The AbortSignal of each run's cancel token, so a token gets at most one listener. */
+const cancelSignals = new WeakMap<vscode.CancellationToken, AbortSignal>();
+
+/** An AbortSignal for core functions that fires with the current run's cancel token. */
+function getCancelSignal(): AbortSignal | undefined {
+	const token = cancelToken?.token;
+	if (!token) { return undefined; }
+	let signal = cancelSignals.get(token);
+	if (!signal) {
+		const controller = new AbortController();
+		if (token.isCancellationRequested) {
+			controller.abort();
+		} else {
+			const listener = token.onCancellationRequested(() => {
+				listener.dispose();
+				controller.abort();
+			});
+		}
+		signal = controller.signal;
+		cancelSignals.set(token, signal);
+	}
+	return signal;
 }
 
-function sleep(ms: number): Promise<void> {
-	return new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * Resolve after `ms` milliseconds, or immediately when any of the given
+ * tokens is cancelled.
+ */
+function sleep(ms: number, ...tokens: (vscode.CancellationToken | undefined)[]): Promise<void> {
+	return new Promise(resolve => {
+		if (tokens.some(t => t?.isCancellationRequested)) {
+			resolve();
+			return;
+		}
+		const done = () => {
+			clearTimeout(timer);
+			listeners.forEach(l => l?.dispose());
+			resolve();
+		};
+		const listeners = tokens.map(t => t?.onCancellationRequested(done));
+		const timer = setTimeout(done, ms);
+	});
 }
 
 function updateStatusBar(state: 'idle' | 'running'): void {
+	refreshDashboard();
 	if (!statusBarItem) { return; }
+
+	// In multi-root workspaces, list per-folder progress in the tooltip
+	const folderLines = isMultiRoot()
+		? getPrdRoots().map(root => {
+			const summary = getProgressSummary(root);
+			const marker = state === 'running' && root === activeRoot ? ' (running)' : '';
+			return `${getFolderName(root)}: ${summary ? `${summary.done}/${summary.total} done` : 'invalid prd.json'}${marker}`;
+		})
+		: [];
+	const details = folderLines.length > 0 ? `\n\n${folderLines.join('\n')}` : '';
+
+	const pausing = state === 'running' && pauseToken?.token.isCancellationRequested;
 	if (state === 'running') {
-		statusBarItem.text = '$(sync~spin) RALPH';
-		statusBarItem.tooltip = 'RALPH Runner — task in progress (click for menu)';
+		const label = pausing ? 'RALPH (pausing)' : 'RALPH';
+		statusBarItem.text = activeRoot && isMultiRoot()
+			? `$(sync~spin) ${label}: ${getFolderName(activeRoot)}`
+			: `$(sync~spin) ${label}`;
+		statusBarItem.tooltip = pausing
+			? `RALPH Runner — pausing after the current story (click for menu)${details}`
+			: `RALPH Runner — task in progress (click for menu)${details}`;
 		statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+	} else if (getWorkspaceRoots().some(root => RalphStateManager.readRunState(root)?.status === 'paused')) {
+		statusBarItem.text = '$(debug-pause) RALPH: paused';
+		statusBarItem.tooltip = `RALPH Runner — paused; run 'RALPH: Resume' to continue (click for menu)${details}`;
+		statusBarItem.backgroundColor = undefined;
 	} else {
 		statusBarItem.text = '$(rocket) RALPH';
-		statusBarItem.tooltip = 'RALPH Runner — click to show commands';
+		statusBarItem.tooltip = `RALPH Runner — click to show commands${details}`;
 		statusBarItem.backgroundColor = undefined;
 	}
 }
@@ -769,9 +3693,18 @@ async function showCommandMenu(): Promise<void> {
 	const items: vscode.QuickPickItem[] = [
 		{ label: '$(zap)  Generate PRD', description: 'Generate prd.json via Copilot' },
 		{ label: '$(play)  Start', description: 'Begin or resume the autonomous task loop' },
+		{ label: '$(run)  Run Story', description: 'Run one chosen user story now' },
+		{ label: '$(debug-pause)  Pause', description: 'Finish the current story, then pause the run' },
+		{ label: '$(debug-continue)  Resume', description: 'Continue a paused or interrupted run' },
 		{ label: '$(debug-stop)  Stop', description: 'Cancel the current run' },
 		{ label: '$(info)  Show Status', description: 'Display user story progress summary' },
 		{ label: '$(debug-restart)  Reset Story', description: 'Reset a completed user story' },
+		{ label: '$(go-to-file)  Preview Story Prompt', description: 'Show the rendered prompt for a story' },
+		{ label: '$(discard)  Rollback Story', description: "Undo a story's file changes using its checkpoint" },
+		{ label: '$(dashboard)  Show Dashboard', description: 'Progress, timings, failures and a timeline of the current run' },
+		{ label: '$(history)  Show History', description: 'Browse past runs and open story transcripts' },
+		{ label: '$(export)  Export Progress', description: 'Write progress to progress.txt in the legacy text format' },
+		{ label: '$(file-symlink-file)  Select PRD', description: 'Switch the active plan file' },
 		{ label: '$(gear)  Open Settings', description: 'Configure RALPH Runner options' },
 	];
 
@@ -784,9 +3717,18 @@ async function showCommandMenu(): Promise<void> {
 	const commandMap: Record<string, string> = {
 		'$(zap)  Generate PRD': 'ralph-runner.quickStart',
 		'$(play)  Start': 'ralph-runner.start',
+		'$(run)  Run Story': 'ralph-runner.runStory',
+		'$(debug-pause)  Pause': 'ralph-runner.pause',
+		'$(debug-continue)  Resume': 'ralph-runner.resume',
 		'$(debug-stop)  Stop': 'ralph-runner.stop',
 		'$(info)  Show Status': 'ralph-runner.status',
 		'$(debug-restart)  Reset Story': 'ralph-runner.resetStep',
+		'$(go-to-file)  Preview Story Prompt': 'ralph-runner.openStoryPrompt',
+		'$(discard)  Rollback Story': 'ralph-runner.rollbackStory',
+		'$(dashboard)  Show Dashboard': 'ralph-runner.showDashboard',
+		'$(history)  Show History': 'ralph-runner.showHistory',
+		'$(export)  Export Progress': 'ralph-runner.exportProgress',
+		'$(file-symlink-file)  Select PRD': 'ralph-runner.selectPrd',
 		'$(gear)  Open Settings': 'ralph-runner.openSettings',
 	};
 
@@ -804,11 +3746,8 @@ async function showCommandMenu(): Promise<void> {
 //    uses Copilot to generate prd.json in the expected format.
 
 async function quickStart(): Promise<void> {
-	const workspaceRoot = getWorkspaceRoot();
-	if (!workspaceRoot) {
-		vscode.window.showErrorMessage('No workspace folder open.');
-		return;
-	}
+	const workspaceRoot = await pickWorkspaceRoot('Select the workspace folder to set up prd.json in', false);
+	if (!workspaceRoot) { return; }
 
 	outputChannel.show(true);
 	log('═══════════════════════════════════════════════════');
@@ -820,9 +3759,9 @@ async function quickStart(): Promise<void> {
 
 	// ── Case 1: File already exists ─────────────────────────────────────────
 	if (prdExists) {
-		log('prd.json already exists.');
+		log(`${toWorkspaceRelative(workspaceRoot, prdPath)} already exists.`);
 		const action = await vscode.window.showInformationMessage(
-			'RALPH: prd.json already exists in the workspace root.',
+			`RALPH: ${toWorkspaceRelative(workspaceRoot, prdPath)} already exists.`,
 			'Start', 'Open PRD'
 		);
 		if (action === 'Start') {
@@ -881,6 +3820,7 @@ async function quickStartProvideFile(prdPath: string): Promise<void> {
 	}
 
 	const srcPath = uris[0].fsPath;
+	fs.mkdirSync(path.dirname(prdPath), { recursive: true });
 	fs.copyFileSync(srcPath, prdPath);
 	log(`Copied prd.json from ${srcPath}`);
 	vscode.window.showInformationMessage('RALPH: prd.json is ready! You can now run "RALPH: Start".');
@@ -928,7 +3868,7 @@ async function quickStartGenerate(workspaceRoot: string): Promise<void> {
 	}
 
 	vscode.window.showInformationMessage(
-		'RALPH: Copilot is generating your prd.json. Once it appears in the workspace root, run "RALPH: Start".'
+		`RALPH: Copilot is generating ${toWorkspaceRelative(workspaceRoot, getPrdPath(workspaceRoot))}. Once it appears, run "RALPH: Start".`
 	);
 	log('Generate PRD prompt sent to Copilot. Waiting for file generation…');
 }
@@ -938,50 +3878,18 @@ async function quickStartGenerate(workspaceRoot: string): Promise<void> {
  * in the exact format the RALPH Runner expects.
  */
 function buildQuickStartPrompt(userGoal: string, workspaceRoot: string): string {
-	return [
-		'Go through entire codebase and understand the code.',
-		`The user wants to accomplish the following goal: ${userGoal}`,
-		``,
-		`Workspace root: ${workspaceRoot}`,
-		``,
-		`Please analyze the workspace and generate one file in the workspace root called prd.json following the syntax below.`,
-		``,
-		'```json',
-		'{',
-		'  "project": "<ProjectName>",',
-		'  "branchName": "ralph/<branchName>",',
-		'  "description": "<Short Description of user request>",',
-		'  "userStories": [',
-		'    {',
-		'      "id": "US-001",',
-		'      "title": "Setup Project Structure and Enums",',
-		'      "description": "Setup Project Structure and Enums",',
-		'      "acceptanceCriteria": ["Setup Project Structure and Enums"],',
-		'      "priority": 1',
-		'    }',
-		'  ]',
-		'}',
-		'```',
-		``,
-		`INSTRUCTIONS:`,
-		`- If the user forgot to provide a goal, ask him again to provide one. A goal is mandatory. If the provided goal is generic/placeholder/not clear enough. Ask again.`,
-		`- The json should have a logical sequence of user stories organized into phases.`,
-		`- Each user story should be granular enough to be independently executable and verifiable.`,
-		`- Number user stories sequentially starting from "US-001".`,
-		`- Do NOT include "passes" or "notes" fields in the user stories. Progress is tracked separately.`,
+	const gitCommitInstructions = getConfig().GIT_COMMIT_PER_STORY ? [
+		`- Do NOT add git commit user stories — RALPH commits the changes of every completed story itself.`,
+	] : [
 		`- After EVERY user story, insert a git commit user story. This story should stage all changes and commit them with a meaningful message describing what was done in the preceding user story. For example: { "id": "US-002", "title": "Git Commit: Setup Project Structure", "description": "Stage all changes and commit to git with message: 'feat: setup project structure and enums'", "acceptanceCriteria": ["All changes are staged", "Changes are committed with a descriptive message"], "priority": 2 }.`,
 		`- The git commit stories must use conventional commit message format (feat:, fix:, refactor:, docs:, chore:, etc.).`,
-		``,
-		`IMPORTANT:`,
-		`- DO NOT use any absolute, user-specific, or local system-specific paths, directories, namespaces, or usernames in any command or file path.`,
-		`- All file paths and commands must be relative and portable, so the plan works for any user on any system.`,
-		`- Avoid referencing any local folders outside the workspace root.`,
-		`- Do not use commands that reference your own username, home directory, or machine-specific details.`,
-		`- The plan must be fully shareable and portable.`,
-		``,
-		`IMPORTANT:`,
-		`- Create the file at the workspace root: ${workspaceRoot}`,
-		`- Be thorough: include all necessary user stories for the user's goal`,
-		`- Actually create the file — do not just show its content`,
-	].join('\n');
+	];
+
+	return renderTemplate(loadTemplate(workspaceRoot, 'prd', DEFAULT_PRD_TEMPLATE), {
+		userGoal,
+		workspaceRoot,
+		prdPath: toWorkspaceRelative(workspaceRoot, getPrdPath(workspaceRoot)),
+		prdFile: getPrdPath(workspaceRoot).replace(/\\/g, '/'),
+		gitCommitInstructions: gitCommitInstructions.join('\n'),
+	});
 }
@@ -0,0 +1,69 @@
+/*---------------------------------------------------------------------------------------------
+ *  Subset of the API exported by the built-in `vscode.git` extension
+ *  (extensions/git/src/api/git.d.ts in microsoft/vscode), limited to what
+ *  RALPH Runner uses. Keep member names and shapes identical to upstream.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Uri, Event } from 'vscode';
+
+export interface Ref {
+	readonly name?: string;
+	readonly commit?: string;
+}
+
+export interface Branch extends Ref {
+	readonly upstream?: { readonly remote: string; readonly name: string };
+}
+
+export interface Change {
+	readonly uri: Uri;
+	readonly originalUri: Uri;
+	readonly renameUri: Uri | undefined;
+	readonly status: number;
+}
+
+export interface RepositoryState {
+	readonly HEAD: Branch | undefined;
+	readonly mergeChanges: Change[];
+	readonly indexChanges: Change[];
+	readonly workingTreeChanges: Change[];
+	readonly untrackedChanges?: Change[];
+	readonly onDidChange: Event<void>;
+}
+
+export interface CommitOptions {
+	all?: boolean | 'tracked';
+	empty?: boolean;
+}
+
+export interface Repository {
+	readonly rootUri: Uri;
+	readonly state: RepositoryState;
+
+	status(): Promise<void>;
+	add(paths: string[]): Promise<void>;
+	commit(message: string, opts?: CommitOptions): Promise<void>;
+	checkout(treeish: string): Promise<void>;
+	createBranch(name: string, checkout: boolean, ref?: string): Promise<void>;
+	getBranch(name: string): Promise<Branch>;
+}
+
+export interface Git {
+	readonly path: string;
+}
+
+export type APIState = 'uninitialized' | 'initialized';
+
+export interface API {
+	readonly state: APIState;
+	readonly onDidChangeState: Event<APIState>;
+	readonly git: Git;
+	readonly repositories: Repository[];
+	toGitUri(uri: Uri, ref: string): Uri;
+	getRepository(uri: Uri): Repository | null;
+}
+
+export interface GitExtension {
+	readonly enabled: boolean;
+	getAPI(version: 1): API;
+}
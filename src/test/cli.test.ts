@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PRD_FILENAME, RalphStateManager, createRunLockOwner, getStoryAttempts, getStoryHistory, getStoryProgress, writeProgressEntry } from '../core';
+
+// Tests of the ralph CLI, run as a separate process on the compiled out/cli.js.
+
+const CLI_PATH = path.join(__dirname, '..', 'cli.js');
+
+/** Run `ralph` with `args` in `cwd`. In the VS Code test host, the Electron binary runs as Node. */
+function runCli(cwd: string, args: string[]): cp.SpawnSyncReturns<string> {
+	return cp.spawnSync(process.execPath, [CLI_PATH, ...args], {
+		cwd,
+		encoding: 'utf-8',
+		env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+		timeout: 60000,
+	});
+}
+
+/** Resolve once `condition` holds, checking every 50 ms. */
+async function waitFor(condition: () => boolean): Promise<void> {
+	while (!condition()) {
+		await new Promise(resolve => setTimeout(resolve, 50));
+	}
+}
+
+/** A fresh workspace folder with a prd.json holding `storyIds`, for each test. */
+function useTempWorkspace(storyIds: string[]): () => string {
+	let root = '';
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'ralph-cli-'));
+		const userStories = storyIds.map((id, index) => ({ id, title: `Story ${id}`, description: 'Do it', acceptanceCriteria: ['It works'], priority: index + 1 }));
+		fs.writeFileSync(path.join(root, PRD_FILENAME), JSON.stringify({ project: 'Test', branchName: '', description: 'Testing', userStories }, null, 2));
+	});
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+	return () => root;
+}
+
+suite('CLI: options', () => {
+	const workspace = useTempWorkspace([]);
+
+	test('rejects --max-attempts below 1', () => {
+		const result = runCli(workspace(), ['run', '--agent', 'true', '--max-attempts', '0']);
+		assert.strictEqual(result.status, 2);
+		assert.match(result.stderr, /--max-attempts must be a number of at least 1/);
+	});
+
+	test('rejects negative and empty durations', () => {
+		const backoff = runCli(workspace(), ['run', '--agent', 'true', '--backoff=-1']);
+		assert.strictEqual(backoff.status, 2);
+		assert.match(backoff.stderr, /--backoff must be a non-negative number/);
+
+		const timeout = runCli(workspace(), ['run', '--agent', 'true', '--timeout=']);
+		assert.strictEqual(timeout.status, 2);
+		assert.match(timeout.stderr, /--timeout must be a number of at least 1/);
+	});
+});
+
+suite('CLI: reset', () => {
+	const workspace = useTempWorkspace(['US-001']);
+
+	test('refuses while another run holds the lock, unless forced', () => {
+		writeProgressEntry(workspace(), 'US-001', 'done', 'Completed successfully');
+		// This test process is alive, so its lock is not stale
+		RalphStateManager.acquireRunLock(workspace(), createRunLockOwner('vscode', 'window-1'), 60000);
+
+		const refused = runCli(workspace(), ['reset', 'US-001']);
+		assert.strictEqual(refused.status, 1);
+		assert.match(refused.stderr, /being run by/);
+		assert.strictEqual(getStoryProgress(workspace(), 'US-001')?.status, 'done');
+
+		const forced = runCli(workspace(), ['reset', 'US-001', '--force']);
+		assert.strictEqual(forced.status, 0);
+		assert.strictEqual(getStoryProgress(workspace(), 'US-001'), undefined);
+		assert.strictEqual(RalphStateManager.readRunLock(workspace()), undefined);
+	});
+});
+
+suite('CLI: run', () => {
+	const workspace = useTempWorkspace(['US-001']);
+
+	test('does not count a stopped story as a failed attempt', async () => {
+		const run = cp.spawn(process.execPath, [CLI_PATH, 'run', '--agent', 'sleep 30'], {
+			cwd: workspace(),
+			env: { ...process.env, ELECTRON_RUN_AS_NODE: '1' },
+			stdio: 'ignore',
+		});
+		const exited = new Promise<number | null>(resolve => run.on('exit', resolve));
+
+		await waitFor(() => RalphStateManager.getInProgressTaskId(workspace()) === 'US-001');
+		run.kill('SIGTERM');
+		assert.strictEqual(await exited, 1);
+
+		assert.deepStrictEqual(getStoryHistory(workspace(), 'US-001'), []);
+		assert.strictEqual(getStoryAttempts(workspace(), 'US-001'), undefined);
+		assert.strictEqual(RalphStateManager.getTaskStatus(workspace(), 'US-001'), 'none');
+		assert.strictEqual(RalphStateManager.readRunLock(workspace()), undefined);
+	});
+});
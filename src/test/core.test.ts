@@ -0,0 +1,668 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { PrdFile, RunLock, UserStory } from '../core';
+import {
+	DEFAULT_STORY_TEMPLATE, PRD_FILENAME, PROGRESS_FILENAME, RALPH_DIR, RalphStateManager, buildCompletedStoriesBlock, buildInstructionsBlock,
+	buildStoryContext, buildStoryPrompt, createRunLockOwner, exportLegacyProgress, findDependencyCycle, findFiles, findNextPendingStory,
+	formatPrdProblem, getProgressPath, getProgressStorePath, getStoryAttempts, getStoryHistory, getStoryLogPath, getStoryTimeout,
+	getTemplatePath, getUnmetDependencies, getVerifyCommands, globToRegExp, isRunLockStale, loadProgressStore, loadTemplate,
+	locatePrdProblems, readProgress, readProgressStore, recordFailedAttempt, removeProgressEntry, renderTemplate, resetStoryState, resolveLocation,
+	runShellAgent, runShellCommand, setCoreHost, tailLines, validatePrdText, writeProgressEntry,
+} from '../core';
+
+// Unit tests for the vscode-free core shared by the extension and the CLI.
+
+/** A valid story; `overrides` replace or add fields. */
+function makeStory(id: string, overrides: Partial<UserStory> = {}): UserStory {
+	return { id, title: `Story ${id}`, description: 'Do it', acceptanceCriteria: ['It works'], priority: 1, ...overrides };
+}
+
+/** A PRD with the given stories. */
+function makePrd(stories: UserStory[]): PrdFile {
+	return { project: 'Test', branchName: 'ralph/test', description: 'Testing', userStories: stories };
+}
+
+/** The text of a valid prd.json with the given stories. */
+function makePrdText(stories: unknown[], extra: Record<string, unknown> = {}): string {
+	return JSON.stringify({ project: 'Test', branchName: 'ralph/test', description: 'Testing', userStories: stories, ...extra }, null, 2);
+}
+
+/** A fresh, empty workspace folder for each test. */
+function useTempWorkspace(): () => string {
+	let root = '';
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'ralph-core-'));
+	});
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+	return () => root;
+}
+
+suite('Core: runShellCommand', () => {
+	const workspace = useTempWorkspace();
+	let root: string;
+
+	setup(() => {
+		root = workspace();
+	});
+
+	test('resolves with the exit code and combined output', async () => {
+		const result = await runShellCommand('echo out; echo err 1>&2; exit 3', root, 10000);
+		assert.strictEqual(result.exitCode, 3);
+		assert.strictEqual(result.timedOut, false);
+		assert.match(result.output, /out/);
+		assert.match(result.output, /err/);
+	});
+
+	test('passes input on stdin and adds env variables', async () => {
+		const result = await runShellCommand('cat; echo "$RALPH_TEST_VALUE"', root, 10000, {
+			input: 'from stdin\n',
+			env: { RALPH_TEST_VALUE: 'from env' },
+		});
+		assert.strictEqual(result.exitCode, 0);
+		assert.strictEqual(result.output, 'from stdin\nfrom env\n');
+	});
+
+	test('kills the whole command on timeout, not just the shell', async () => {
+		const started = Date.now();
+		const result = await runShellCommand('sleep 8; echo finished', root, 300);
+		assert.strictEqual(result.timedOut, true);
+		assert.ok(Date.now() - started < 4000, `took ${Date.now() - started} ms`);
+		assert.doesNotMatch(result.output, /finished/);
+	});
+
+	test('does not wait for a background process that holds the output open', async () => {
+		const started = Date.now();
+		const result = await runShellCommand('(sleep 8 &); echo done', root, 10000);
+		assert.strictEqual(result.exitCode, 0);
+		assert.match(result.output, /done/);
+		assert.ok(Date.now() - started < 4000, `took ${Date.now() - started} ms`);
+	});
+
+	test('rejects with "Cancelled by user" when aborted', async () => {
+		const controller = new AbortController();
+		const started = Date.now();
+		const running = runShellCommand('sleep 8', root, 10000, { signal: controller.signal });
+		setTimeout(() => controller.abort(), 200);
+		await assert.rejects(running, /Cancelled by user/);
+		assert.ok(Date.now() - started < 4000, `took ${Date.now() - started} ms`);
+	});
+});
+
+suite('Core: verification', () => {
+	const workspace = useTempWorkspace();
+
+	test('uses the story\'s own verify commands, else the PRD default', () => {
+		fs.writeFileSync(path.join(workspace(), PRD_FILENAME), makePrdText([], { verify: 'npm test' }));
+		assert.deepStrictEqual(getVerifyCommands(makeStory('US-001'), workspace()), ['npm test']);
+		assert.deepStrictEqual(getVerifyCommands(makeStory('US-001', { verify: ['npm run lint', 'npm test'] }), workspace()), ['npm run lint', 'npm test']);
+		assert.deepStrictEqual(getVerifyCommands(makeStory('US-001', { verify: [] }), workspace()), []);
+	});
+
+	test('keeps the last lines of the output', () => {
+		assert.strictEqual(tailLines('one\r\ntwo\nthree\n\n', 2), 'two\nthree');
+		assert.strictEqual(tailLines('one', 5), 'one');
+	});
+});
+
+suite('Core: progress store', () => {
+	const workspace = useTempWorkspace();
+
+	test('migrates a legacy progress.txt into progress.json', () => {
+		fs.writeFileSync(path.join(workspace(), 'progress.txt'), [
+			'# RALPH Runner Progress',
+			'US-001 | done | 2026-02-24 11:00:00 | Completed successfully',
+			'US-002 | failed | 2026-02-24 12:00:00 | Timed out | twice',
+		].join('\n'));
+
+		const store = loadProgressStore(workspace());
+		assert.deepStrictEqual(Object.keys(store.stories), ['US-001', 'US-002']);
+		assert.strictEqual(store.stories['US-001'].status, 'done');
+		assert.strictEqual(store.stories['US-002'].history[0].error, 'Timed out | twice');
+		assert.ok(fs.existsSync(getProgressStorePath(workspace())));
+	});
+
+	test('appends every attempt to the history and keeps it on reset', () => {
+		writeProgressEntry(workspace(), 'US-001', 'failed', 'Attempt 1/3: boom', { error: 'boom', checkpoint: 'abc123' });
+		writeProgressEntry(workspace(), 'US-001', 'done', 'Completed successfully', { summary: 'Did it' });
+		removeProgressEntry(workspace(), 'US-001');
+
+		assert.deepStrictEqual(readProgress(workspace()), []);
+		const history = getStoryHistory(workspace(), 'US-001');
+		assert.deepStrictEqual(history.map(a => a.outcome), ['failed', 'done']);
+		assert.strictEqual(history[0].checkpoint, 'abc123');
+		assert.strictEqual(history[1].summary, 'Did it');
+	});
+
+	test('exports the current statuses as one line per story', () => {
+		writeProgressEntry(workspace(), 'US-001', 'failed', 'line one\nline | two');
+		const lines = fs.readFileSync(exportLegacyProgress(workspace()), 'utf-8').trim().split('\n');
+		assert.match(lines[lines.length - 1], /^US-001 \| failed \| [\d-]+ [\d:]+ \| line one line \/ two$/);
+	});
+
+	test('moves an unreadable store aside instead of overwriting it', () => {
+		const storePath = getProgressStorePath(workspace());
+		fs.mkdirSync(path.dirname(storePath), { recursive: true });
+		fs.writeFileSync(storePath, '{ "stories": { "US-001": ');
+
+		writeProgressEntry(workspace(), 'US-002', 'done', 'Completed successfully');
+
+		const corrupt = fs.readdirSync(path.dirname(storePath)).filter(f => f.startsWith('progress.json.corrupt-'));
+		assert.strictEqual(corrupt.length, 1);
+		assert.strictEqual(fs.readFileSync(path.join(path.dirname(storePath), corrupt[0]), 'utf-8'), '{ "stories": { "US-001": ');
+		assert.deepStrictEqual(readProgress(workspace()).map(e => e.id), ['US-002']);
+	});
+
+	test('leaves the files alone when only reading progress', () => {
+		const storePath = getProgressStorePath(workspace());
+		fs.writeFileSync(path.join(workspace(), 'progress.txt'), 'US-001 | done | 2026-02-24 11:00:00 | Completed successfully\n');
+		assert.strictEqual(readProgressStore(workspace()).stories['US-001'].status, 'done');
+		assert.strictEqual(fs.existsSync(storePath), false);
+
+		fs.mkdirSync(path.dirname(storePath), { recursive: true });
+		fs.writeFileSync(storePath, '{ "stories": { "US-001": ');
+		assert.deepStrictEqual(readProgress(workspace()), []);
+		assert.deepStrictEqual(getStoryHistory(workspace(), 'US-001'), []);
+		assert.deepStrictEqual(fs.readdirSync(path.dirname(storePath)), ['progress.json']);
+	});
+});
+
+suite('Core: retries', () => {
+	const workspace = useTempWorkspace();
+	const details = { startedAt: new Date() };
+
+	test('counts the failed attempts since the story last succeeded', () => {
+		assert.strictEqual(getStoryAttempts(workspace(), 'US-001'), undefined);
+		recordFailedAttempt(workspace(), 'US-001', 'first', 3, details);
+		writeProgressEntry(workspace(), 'US-001', 'done', 'Completed successfully');
+		assert.strictEqual(getStoryAttempts(workspace(), 'US-001'), undefined);
+
+		recordFailedAttempt(workspace(), 'US-001', 'second', 3, details);
+		recordFailedAttempt(workspace(), 'US-001', 'third', 3, details);
+		const attempts = getStoryAttempts(workspace(), 'US-001');
+		assert.strictEqual(attempts?.failures, 2);
+		assert.strictEqual(attempts?.lastError, 'third');
+	});
+
+	test('gives up after maxAttempts failures', () => {
+		assert.strictEqual(recordFailedAttempt(workspace(), 'US-001', 'boom', 2, details), 'failed');
+		assert.strictEqual(recordFailedAttempt(workspace(), 'US-001', 'boom', 2, details, ' (changes rolled back)'), 'gave-up');
+		const entry = readProgress(workspace()).find(e => e.id === 'US-001');
+		assert.strictEqual(entry?.status, 'gave-up');
+		assert.strictEqual(entry?.notes, 'Gave up after 2 attempt(s): boom (changes rolled back)');
+	});
+
+	test('starts counting again after a reset', () => {
+		recordFailedAttempt(workspace(), 'US-001', 'boom', 2, details);
+		recordFailedAttempt(workspace(), 'US-001', 'boom', 2, details);
+		resetStoryState(workspace(), 'US-001');
+		assert.strictEqual(getStoryAttempts(workspace(), 'US-001'), undefined);
+
+		assert.strictEqual(recordFailedAttempt(workspace(), 'US-001', 'again', 2, details), 'failed');
+		assert.strictEqual(getStoryAttempts(workspace(), 'US-001')?.failures, 1);
+		assert.strictEqual(getStoryHistory(workspace(), 'US-001').length, 3);
+	});
+});
+
+suite('Core: PRD validation', () => {
+	const problemsOf = (text: string) => validatePrdText(text).problems.map(formatPrdProblem);
+
+	test('accepts a valid PRD', () => {
+		const result = validatePrdText(makePrdText([makeStory('US-001'), makeStory('US-002', { dependsOn: ['US-001'] })]));
+		assert.deepStrictEqual(result.problems, []);
+		assert.strictEqual(result.prd?.userStories.length, 2);
+	});
+
+	test('reports missing and mistyped fields with their path', () => {
+		const text = makePrdText([{ id: 'US-001', title: 'T', acceptanceCriteria: 'none', priority: '1' }], { project: 3 });
+		assert.deepStrictEqual(problemsOf(text), [
+			'project: "project" must be a string',
+			'userStories[0]: Missing required field "description"',
+			'userStories[0].acceptanceCriteria: "acceptanceCriteria" must be an array of strings',
+			'userStories[0].priority: "priority" must be a number',
+		]);
+		assert.strictEqual(validatePrdText(text).prd, null);
+	});
+
+	test('rejects blank ids, titles and descriptions', () => {
+		assert.deepStrictEqual(problemsOf(makePrdText([makeStory(' ', { title: '', description: '  ' })])), [
+			'userStories[0].id: "id" must be a non-empty string',
+			'userStories[0].title: "title" must be a non-empty string',
+			'userStories[0].description: "description" must be a non-empty string',
+		]);
+	});
+
+	test('reports duplicate story ids', () => {
+		assert.deepStrictEqual(problemsOf(makePrdText([makeStory('US-001'), makeStory('US-001')])), [
+			'userStories[1].id: Duplicate story id "US-001" (also used by userStories[0])',
+		]);
+	});
+
+	test('requires executor to be a non-empty id', () => {
+		assert.deepStrictEqual(problemsOf(makePrdText([makeStory('US-001', { executor: 'shell' })])), []);
+		assert.deepStrictEqual(problemsOf(makePrdText([makeStory('US-001', { executor: ' ' })])), [
+			'userStories[0].executor: "executor" must be a non-empty executor id',
+		]);
+	});
+
+	test('requires requiresReview to be a boolean', () => {
+		assert.deepStrictEqual(problemsOf(makePrdText([makeStory('US-001', { requiresReview: true })])), []);
+		assert.deepStrictEqual(problemsOf(makePrdText([makeStory('US-001', { requiresReview: 'yes' as unknown as boolean })])), [
+			'userStories[0].requiresReview: "requiresReview" must be true or false',
+		]);
+	});
+
+	test('requires timeoutMs to be a positive number', () => {
+		const problemsFor = (timeoutMs: unknown) => problemsOf(makePrdText([makeStory('US-001', { timeoutMs: timeoutMs as number })]));
+		assert.deepStrictEqual(problemsFor(60000), []);
+		for (const invalid of [0, -1, '60000']) {
+			assert.deepStrictEqual(problemsFor(invalid), ['userStories[0].timeoutMs: "timeoutMs" must be a positive number of milliseconds']);
+		}
+	});
+
+	test('reports the position of a JSON syntax error', () => {
+		const text = '{\n  "project": "Test",\n  oops\n}';
+		const { problems } = validatePrdText(text);
+		assert.strictEqual(problems.length, 1);
+		assert.match(problems[0].message, /^Invalid JSON/);
+		assert.deepStrictEqual(locatePrdProblems(text, problems), [[text.indexOf('oops'), text.indexOf('oops') + 1]]);
+	});
+
+	test('locates a problem at the value it is about', () => {
+		const text = makePrdText([makeStory('US-001'), makeStory('US-002', { priority: 'high' as unknown as number })]);
+		const { problems } = validatePrdText(text);
+		const [[start, end]] = locatePrdProblems(text, problems);
+		assert.strictEqual(text.slice(start, end), '"high"');
+	});
+});
+
+suite('Core: dependencies', () => {
+	const workspace = useTempWorkspace();
+
+	test('lists the dependencies that are not done or skipped', () => {
+		const story = makeStory('US-003', { dependsOn: ['US-001', 'US-002', 'US-999'] });
+		assert.deepStrictEqual(getUnmetDependencies(story, new Set(['US-002'])), ['US-001', 'US-999']);
+		assert.deepStrictEqual(getUnmetDependencies(makeStory('US-001'), new Set()), []);
+	});
+
+	test('finds a dependency cycle and ignores unknown ids', () => {
+		assert.deepStrictEqual(findDependencyCycle(makePrd([
+			makeStory('US-001', { dependsOn: ['US-003'] }),
+			makeStory('US-002', { dependsOn: ['US-999'] }),
+			makeStory('US-003', { dependsOn: ['US-002', 'US-001'] }),
+		])), ['US-001', 'US-003', 'US-001']);
+		assert.strictEqual(findDependencyCycle(makePrd([
+			makeStory('US-001'),
+			makeStory('US-002', { dependsOn: ['US-001', 'US-999'] }),
+		])), null);
+	});
+
+	test('reports cycles and unknown dependencies as PRD problems', () => {
+		const cyclic = makePrdText([makeStory('US-001', { dependsOn: ['US-002'] }), makeStory('US-002', { dependsOn: ['US-001'] })]);
+		assert.deepStrictEqual(validatePrdText(cyclic).problems.map(formatPrdProblem), [
+			'userStories[0].dependsOn: Dependency cycle: US-001 → US-002 → US-001',
+		]);
+		const unknown = makePrdText([makeStory('US-001', { dependsOn: ['US-999'] })]);
+		assert.deepStrictEqual(validatePrdText(unknown).problems.map(formatPrdProblem), [
+			'userStories[0].dependsOn[0]: Unknown story id "US-999" in dependsOn',
+		]);
+	});
+
+	test('picks the highest-priority story whose dependencies are resolved', () => {
+		const prd = makePrd([
+			makeStory('US-001', { priority: 3 }),
+			makeStory('US-002', { priority: 1, dependsOn: ['US-001'] }),
+			makeStory('US-003', { priority: 2, dependsOn: ['US-001'] }),
+		]);
+		assert.strictEqual(findNextPendingStory(prd, workspace())?.id, 'US-001');
+
+		writeProgressEntry(workspace(), 'US-001', 'skipped', 'Skipped by user');
+		assert.strictEqual(findNextPendingStory(prd, workspace())?.id, 'US-002');
+
+		writeProgressEntry(workspace(), 'US-002', 'done', 'Completed successfully');
+		writeProgressEntry(workspace(), 'US-003', 'gave-up', 'Gave up after 3 attempt(s): boom');
+		assert.strictEqual(findNextPendingStory(prd, workspace()), null);
+	});
+
+	test('does not pick a story whose dependency gave up', () => {
+		const prd = makePrd([makeStory('US-001'), makeStory('US-002', { priority: 2, dependsOn: ['US-001'] })]);
+		writeProgressEntry(workspace(), 'US-001', 'gave-up', 'Gave up after 3 attempt(s): boom');
+		assert.strictEqual(findNextPendingStory(prd, workspace()), null);
+	});
+});
+
+suite('Core: prompt templates', () => {
+	const workspace = useTempWorkspace();
+	const options = { completionSignal: ['SIGNAL LINE'], contextMaxChars: 0 };
+
+	test('replaces known placeholders and keeps unknown ones', () => {
+		assert.strictEqual(renderTemplate('${a} and ${b} and ${a}', { a: 'x' }), 'x and ${b} and x');
+		assert.strictEqual(renderTemplate('${toString}', {}), '${toString}');
+	});
+
+	test('prefers the workspace\'s template over the built-in one', () => {
+		assert.strictEqual(loadTemplate(workspace(), 'story', 'built-in'), 'built-in');
+		const templatePath = getTemplatePath(workspace(), 'story');
+		fs.mkdirSync(path.dirname(templatePath), { recursive: true });
+		fs.writeFileSync(templatePath, 'custom ${storyId}');
+		assert.strictEqual(loadTemplate(workspace(), 'story', 'built-in'), 'custom ${storyId}');
+		assert.strictEqual(loadTemplate(workspace(), 'prd', 'built-in'), 'built-in');
+	});
+
+	test('renders the PRD instructions as a block, or nothing', () => {
+		const prd = makePrd([]);
+		assert.strictEqual(buildInstructionsBlock(null), '');
+		assert.strictEqual(buildInstructionsBlock({ ...prd, instructions: '  ' }), '');
+		assert.strictEqual(buildInstructionsBlock({ ...prd, instructions: ['use pnpm', 'no new deps'] }),
+			'Project instructions (apply to every story):\n- use pnpm\n- no new deps\n\n');
+	});
+
+	test('renders the built-in story prompt', () => {
+		fs.writeFileSync(path.join(workspace(), PRD_FILENAME), makePrdText([makeStory('US-001')], { instructions: 'use pnpm' }));
+		const prompt = buildStoryPrompt(makeStory('US-001', { acceptanceCriteria: ['A', 'B'] }), workspace(), options);
+		assert.match(prompt, /^You are executing User Story US-001 of the current PRD\.\nTitle: Story US-001\n/);
+		assert.match(prompt, /Acceptance Criteria:\n {2}1\. A\n {2}2\. B\n/);
+		assert.match(prompt, /Project instructions \(apply to every story\):\nuse pnpm\n/);
+		assert.ok(prompt.endsWith('SIGNAL LINE'));
+		assert.doesNotMatch(prompt, /\$\{\w+\}/);
+		assert.ok(DEFAULT_STORY_TEMPLATE.includes('${completionSignal}'));
+	});
+
+	test('appends the completion signal when a custom template leaves it out', () => {
+		const templatePath = getTemplatePath(workspace(), 'story');
+		fs.mkdirSync(path.dirname(templatePath), { recursive: true });
+		fs.writeFileSync(templatePath, 'Do ${storyId}: ${storyTitle}\n');
+		assert.strictEqual(buildStoryPrompt(makeStory('US-001'), workspace(), options), 'Do US-001: Story US-001\n\nSIGNAL LINE');
+	});
+});
+
+suite('Core: prompt context', () => {
+	const workspace = useTempWorkspace();
+
+	/** Create the given files (relative paths) in the workspace. */
+	const writeFiles = (files: Record<string, string>) => {
+		for (const [relative, content] of Object.entries(files)) {
+			fs.mkdirSync(path.dirname(path.join(workspace(), relative)), { recursive: true });
+			fs.writeFileSync(path.join(workspace(), relative), content);
+		}
+	};
+
+	test('matches globs against relative paths', () => {
+		const matches = (glob: string, file: string) => globToRegExp(glob).test(file);
+		assert.ok(matches('src/*.ts', 'src/a.ts'));
+		assert.ok(!matches('src/*.ts', 'src/sub/a.ts'));
+		assert.ok(matches('src/**/*.ts', 'src/a.ts'));
+		assert.ok(matches('src/**/*.ts', 'src/sub/deep/a.ts'));
+		assert.ok(matches('**/*.{ts,md}', 'README.md'));
+		assert.ok(matches('file?.[!b]s', 'file1.js'));
+		assert.ok(!matches('file?.[!b]s', 'file1.bs'));
+		assert.ok(!matches('a.ts', 'aXts'));
+	});
+
+	test('finds files, skipping node_modules, .git and the state directory', () => {
+		writeFiles({
+			'src/b.ts': '', 'src/a.ts': '', 'src/sub/c.ts': '',
+			'node_modules/x/index.ts': '', '.git/hooks/x.ts': '', '.ralph/worktrees/US-001/src/a.ts': '',
+		});
+		const relative = (files: string[]) => files.map(f => path.relative(workspace(), f).replace(/\\/g, '/'));
+		assert.deepStrictEqual(relative(findFiles(workspace(), '**/*.ts')), ['src/a.ts', 'src/b.ts', 'src/sub/c.ts']);
+		assert.deepStrictEqual(relative(findFiles(workspace(), './src/*.ts')), ['src/a.ts', 'src/b.ts']);
+		assert.strictEqual(findFiles(workspace(), '**/*.ts', 2).length, 2);
+	});
+
+	test('attaches story files within the budget and lists the rest', () => {
+		writeFiles({ 'a.txt': 'alpha', 'b.txt': 'x'.repeat(5000), 'c.txt': 'gamma' });
+		const story = makeStory('US-001', { files: ['*.txt'] });
+		const { storyFiles } = buildStoryContext(story, workspace(), null, 1000);
+		assert.match(storyFiles, /--- a\.txt ---\n```\nalpha\n```/);
+		assert.match(storyFiles, /--- b\.txt ---\n```\nx+\n… \(truncated to fit the context budget\)/);
+		assert.match(storyFiles, /Not attached \(context budget exhausted\) — open them if you need them: c\.txt/);
+		assert.ok(storyFiles.length <= 1000, `${storyFiles.length} characters`);
+
+		assert.deepStrictEqual(buildStoryContext(story, workspace(), null, 0), { completedStories: '', storyFiles: '' });
+	});
+
+	test('counts the files left out once their names no longer fit', () => {
+		writeFiles(Object.fromEntries(Array.from({ length: 30 }, (_, i) => [`file-with-a-long-name-${String(i).padStart(2, '0')}.txt`, 'x'.repeat(300)])));
+		const { storyFiles } = buildStoryContext(makeStory('US-001', { files: ['*.txt'] }), workspace(), null, 1000);
+		assert.match(storyFiles, /--- file-with-a-long-name-00\.txt ---/);
+		assert.match(storyFiles, /need them: file-with-a-long-name-02\.txt, .*, … and \d+ more\n/);
+		assert.ok(storyFiles.length <= 1000, `${storyFiles.length} characters`);
+	});
+
+	test('summarises completed stories, keeping the most recent within the budget', () => {
+		const prd = makePrd([makeStory('US-001'), makeStory('US-002'), makeStory('US-003')]);
+		writeProgressEntry(workspace(), 'US-001', 'done', 'Completed successfully', { summary: 'Added the parser.' });
+		writeProgressEntry(workspace(), 'US-002', 'done', 'Completed successfully', { summary: 'Added\nthe CLI.' });
+
+		assert.strictEqual(buildCompletedStoriesBlock(prd, workspace(), 'US-003', 1000), [
+			'Stories already completed in this PRD (most recent last):',
+			'- US-001 — Story US-001: Added the parser.',
+			'- US-002 — Story US-002: Added the CLI.',
+			'', '',
+		].join('\n'));
+		assert.strictEqual(buildCompletedStoriesBlock(prd, workspace(), 'US-003', 110), [
+			'Stories already completed in this PRD (most recent last):',
+			'- … 1 earlier story omitted',
+			'- US-002 — Story US-002: Added the CLI.',
+			'', '',
+		].join('\n'));
+		assert.doesNotMatch(buildCompletedStoriesBlock(prd, workspace(), 'US-002', 1000), /US-002/);
+	});
+});
+
+suite('Core: task results', () => {
+	const workspace = useTempWorkspace();
+
+	/** Write `content` to the status file of US-001 and read it back. */
+	const resultOf = (content: string) => {
+		RalphStateManager.ensureDir(workspace());
+		fs.writeFileSync(RalphStateManager.getTaskStatusPath(workspace(), 'US-001'), content);
+		return RalphStateManager.getTaskResult(workspace(), 'US-001');
+	};
+
+	test('reads the plain "completed" signal', () => {
+		assert.deepStrictEqual(resultOf('completed\n'), { status: 'completed' });
+		RalphStateManager.setCompleted(workspace(), 'US-001');
+		assert.strictEqual(RalphStateManager.getTaskStatus(workspace(), 'US-001'), 'completed');
+	});
+
+	test('reads a structured report and drops malformed fields', () => {
+		assert.deepStrictEqual(resultOf(JSON.stringify({ status: 'completed', summary: ' Added it. ', filesChanged: ['a.ts', 3] })), {
+			status: 'completed', summary: 'Added it.', filesChanged: ['a.ts'],
+		});
+		assert.deepStrictEqual(resultOf(JSON.stringify({ status: 'needs-input', reason: 'Which database?', summary: ' ' })), {
+			status: 'needs-input', reason: 'Which database?',
+		});
+		assert.strictEqual(RalphStateManager.getTaskStatus(workspace(), 'US-001'), 'needs-input');
+	});
+
+	test('does not understand unknown outcomes or half-written files', () => {
+		assert.strictEqual(resultOf(JSON.stringify({ status: 'done' })), undefined);
+		assert.strictEqual(resultOf('{ "status": "fail'), undefined);
+		assert.strictEqual(RalphStateManager.getTaskStatus(workspace(), 'US-001'), 'none');
+		assert.strictEqual(RalphStateManager.getTaskResult(workspace(), 'US-002'), undefined);
+	});
+
+	test('reports a task as in progress until it writes its result', () => {
+		RalphStateManager.setInProgress(workspace(), 'US-001');
+		assert.strictEqual(RalphStateManager.getTaskStatus(workspace(), 'US-001'), 'inprogress');
+		assert.strictEqual(RalphStateManager.getTaskResult(workspace(), 'US-001'), undefined);
+	});
+});
+
+suite('Core: run state', () => {
+	const workspace = useTempWorkspace();
+
+	test('merges updates into the persisted run state', () => {
+		assert.strictEqual(RalphStateManager.readRunState(workspace()), undefined);
+		RalphStateManager.writeRunState(workspace(), { currentStoryId: 'US-001', checkpoint: 'abc123' });
+		RalphStateManager.writeRunState(workspace(), { status: 'paused', loopsExecuted: 2 });
+
+		const state = RalphStateManager.readRunState(workspace());
+		assert.strictEqual(state?.status, 'paused');
+		assert.strictEqual(state?.loopsExecuted, 2);
+		assert.strictEqual(state?.currentStoryId, 'US-001');
+		assert.strictEqual(state?.checkpoint, 'abc123');
+		assert.ok(!Number.isNaN(Date.parse(state?.updatedAt ?? '')));
+	});
+
+	test('ignores an unreadable or cleared run state', () => {
+		RalphStateManager.writeRunState(workspace(), {});
+		RalphStateManager.clearRunState(workspace());
+		assert.strictEqual(RalphStateManager.readRunState(workspace()), undefined);
+
+		fs.writeFileSync(RalphStateManager.getRunStatePath(workspace()), '{ "status": "stopped" }');
+		assert.strictEqual(RalphStateManager.readRunState(workspace()), undefined);
+	});
+});
+
+suite('Core: parallel runs', () => {
+	const workspace = useTempWorkspace();
+
+	test('passes over stories that are already running', () => {
+		const prd = makePrd([makeStory('US-001'), makeStory('US-002', { priority: 2 }), makeStory('US-003', { priority: 3, dependsOn: ['US-001'] })]);
+		assert.strictEqual(findNextPendingStory(prd, workspace(), false, new Set(['US-001']))?.id, 'US-002');
+		assert.strictEqual(findNextPendingStory(prd, workspace(), false, new Set(['US-001', 'US-002'])), null);
+	});
+
+	test('lists every task in progress', () => {
+		RalphStateManager.setInProgress(workspace(), 'US-001');
+		RalphStateManager.setInProgress(workspace(), 'US-002');
+		RalphStateManager.setInProgress(workspace(), 'US-003');
+		RalphStateManager.setCompleted(workspace(), 'US-002');
+		fs.writeFileSync(path.join(RalphStateManager.getRalphDir(workspace()), 'run.json'), 'inprogress');
+
+		assert.deepStrictEqual(RalphStateManager.getInProgressTaskIds(workspace()).sort(), ['US-001', 'US-003']);
+		RalphStateManager.clearStalledTask(workspace(), 'US-001');
+		RalphStateManager.clearStalledTask(workspace(), 'US-003');
+		assert.strictEqual(RalphStateManager.isAnyInProgress(workspace()), false);
+	});
+});
+
+suite('Core: run lock', () => {
+	const workspace = useTempWorkspace();
+	const editor = createRunLockOwner('vscode', 'window-1');
+	const cli = createRunLockOwner('cli', 'cli-1');
+
+	/** Replace the lock file with `lock`. */
+	const writeLock = (lock: RunLock) => {
+		fs.writeFileSync(RalphStateManager.getRunLockPath(workspace()), JSON.stringify(lock));
+	};
+
+	test('refuses a lock held by a live owner and takes over its own', () => {
+		assert.deepStrictEqual(RalphStateManager.acquireRunLock(workspace(), editor, 60000), { acquired: true, recovered: undefined });
+
+		const refused = RalphStateManager.acquireRunLock(workspace(), cli, 60000);
+		assert.strictEqual(refused.acquired, false);
+		assert.strictEqual(!refused.acquired && refused.holder.id, 'window-1');
+
+		assert.strictEqual(RalphStateManager.acquireRunLock(workspace(), editor, 60000).acquired, true);
+	});
+
+	test('recovers a lock whose heartbeat stopped', () => {
+		RalphStateManager.acquireRunLock(workspace(), editor, 60000);
+		const lock = RalphStateManager.readRunLock(workspace())!;
+		writeLock({ ...lock, heartbeatAt: new Date(Date.now() - 120000).toISOString() });
+
+		const result = RalphStateManager.acquireRunLock(workspace(), cli, 60000);
+		assert.strictEqual(result.acquired, true);
+		assert.strictEqual(result.acquired && result.recovered?.id, 'window-1');
+		assert.strictEqual(RalphStateManager.readRunLock(workspace())?.id, 'cli-1');
+	});
+
+	test('treats a lock whose process is gone as stale', () => {
+		const deadPid = cp.spawnSync(process.execPath, ['-e', '']).pid;
+		const now = new Date().toISOString();
+		const lock: RunLock = { ...editor, pid: deadPid, startedAt: now, heartbeatAt: now };
+		assert.strictEqual(isRunLockStale(lock, 60000), true);
+		assert.strictEqual(isRunLockStale({ ...lock, pid: process.pid }, 60000), false);
+		assert.strictEqual(isRunLockStale({ ...lock, hostname: 'some-other-host' }, 60000), false);
+		assert.strictEqual(isRunLockStale({ ...lock, pid: process.pid, heartbeatAt: 'garbage' }, 60000), true);
+	});
+
+	test('only the holder refreshes or releases the lock', async () => {
+		RalphStateManager.acquireRunLock(workspace(), editor, 60000);
+		const before = RalphStateManager.readRunLock(workspace())!.heartbeatAt;
+		await new Promise(resolve => setTimeout(resolve, 5));
+
+		assert.strictEqual(RalphStateManager.heartbeatRunLock(workspace(), 'cli-1'), false);
+		assert.strictEqual(RalphStateManager.heartbeatRunLock(workspace(), 'window-1'), true);
+		assert.ok(RalphStateManager.readRunLock(workspace())!.heartbeatAt > before);
+
+		RalphStateManager.releaseRunLock(workspace(), 'cli-1');
+		assert.strictEqual(RalphStateManager.readRunLock(workspace())?.id, 'window-1');
+		RalphStateManager.releaseRunLock(workspace(), 'window-1');
+		assert.strictEqual(RalphStateManager.readRunLock(workspace()), undefined);
+	});
+});
+
+suite('Core: story timeouts', () => {
+	test('uses the story\'s own timeout, else the default', () => {
+		assert.strictEqual(getStoryTimeout(makeStory('US-001'), 600000), 600000);
+		assert.strictEqual(getStoryTimeout(makeStory('US-001', { timeoutMs: 1800000 }), 600000), 1800000);
+	});
+});
+
+suite('Core: shell agent', () => {
+	const workspace = useTempWorkspace();
+
+	test('passes the prompt on stdin and logs the output', async () => {
+		await runShellAgent({
+			command: 'cat; echo "story=$RALPH_STORY_ID"; test -f "$RALPH_PROMPT_FILE" && echo "prompt file written"',
+			prompt: 'Do US-001\n',
+			storyId: 'US-001',
+			workspaceRoot: workspace(),
+			timeoutMs: 10000,
+		});
+		const logPath = getStoryLogPath(workspace(), 'US-001');
+		assert.match(fs.readFileSync(logPath, 'utf-8'), /Do US-001\nstory=US-001\nprompt file written\n$/);
+		assert.strictEqual(fs.readFileSync(logPath.replace(/\.md$/, '.prompt.md'), 'utf-8'), 'Do US-001\n');
+	});
+
+	test('fails with the end of the output when the agent exits non-zero', async () => {
+		await assert.rejects(
+			runShellAgent({ command: 'echo "no API key"; exit 2', prompt: '', storyId: 'US-001', workspaceRoot: workspace(), timeoutMs: 10000 }),
+			{ message: '`echo "no API key"; exit 2` exited with code 2:\nno API key' },
+		);
+	});
+});
+
+suite('Core: locations', () => {
+	const workspace = useTempWorkspace();
+
+	setup(() => {
+		setCoreHost({
+			getPrdPath: root => path.join(root, 'plans', 'auth.json'),
+			getLocations: () => ({
+				progressFilePath: 'plans/${prdName}.progress.txt',
+				stateDirectory: '.ralph/${prdName}',
+				templatesDirectory: '.ralph/templates',
+			}),
+		});
+	});
+
+	teardown(() => {
+		setCoreHost({
+			getPrdPath: root => path.resolve(root, PRD_FILENAME),
+			getLocations: () => ({ progressFilePath: PROGRESS_FILENAME, stateDirectory: RALPH_DIR, templatesDirectory: `${RALPH_DIR}/templates` }),
+		});
+	});
+
+	test('expands ${prdName} to the name of the active PRD', () => {
+		assert.strictEqual(resolveLocation(workspace(), 'out/${prdName}/${prdName}.md'), path.join(workspace(), 'out', 'auth', 'auth.md'));
+		assert.strictEqual(RalphStateManager.getRalphDir(workspace()), path.join(workspace(), '.ralph', 'auth'));
+		assert.strictEqual(getProgressPath(workspace()), path.join(workspace(), 'plans', 'auth.progress.txt'));
+	});
+
+	test('keeps the state of each PRD apart', () => {
+		writeProgressEntry(workspace(), 'US-001', 'done', 'Completed successfully');
+		assert.strictEqual(getProgressStorePath(workspace()), path.join(workspace(), '.ralph', 'auth', 'progress.json'));
+		assert.ok(fs.existsSync(getProgressStorePath(workspace())));
+		assert.ok(!fs.existsSync(path.join(workspace(), '.ralph', 'progress.json')));
+	});
+});
@@ -1,15 +1,159 @@
 import * as assert from 'assert';
-
-// You can import and use all API from the 'vscode' module
-// as well as import your extension to test it
+import * as fs from 'fs';
+import * as path from 'path';
 import * as vscode from 'vscode';
-// import * as myExtension from '../../extension';
+import type { UserStory } from '../core';
+import { PRD_FILENAME, RALPH_DIR, RalphStateManager, getStoryAttempts, getStoryHistory, getStoryProgress } from '../core';
+import type { ExecutorRequest, ExecutorResult, RalphRunnerApi, StoryExecutor } from '../extension';
+
+// Integration tests: run in VS Code with the extension loaded and an empty
+// temporary folder as the workspace (see .vscode-test.mjs). Stories are
+// executed by a test executor registered through the extension's API.
+
+const EXTENSION_ID = 'recent-graduates.ralph-runner';
+
+/**
+ * An executor whose stories run until the test finishes them (or the run is
+ * stopped). `next()` resolves with the next story it is given.
+ */
+class ManualExecutor implements StoryExecutor {
+	readonly id = 'test-manual';
+	private waiting: ((story: RunningStory) => void)[] = [];
+	private started: RunningStory[] = [];
+
+	execute(request: ExecutorRequest, token: vscode.CancellationToken): Promise<ExecutorResult | void> {
+		return new Promise(resolve => {
+			const story = { storyId: request.storyId, finish: resolve };
+			token.onCancellationRequested(() => resolve());
+			const waiter = this.waiting.shift();
+			if (waiter) { waiter(story); } else { this.started.push(story); }
+		});
+	}
+
+	next(): Promise<RunningStory> {
+		const story = this.started.shift();
+		return story ? Promise.resolve(story) : new Promise(resolve => this.waiting.push(resolve));
+	}
+}
+
+interface RunningStory {
+	storyId: string;
+	finish(result?: ExecutorResult): void;
+}
+
+function getWorkspaceRoot(): string {
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	assert.ok(folder, 'the tests need a workspace folder');
+	return folder.uri.fsPath;
+}
+
+function writePrd(stories: UserStory[]): void {
+	const prd = { project: 'Test', branchName: '', description: 'Testing', userStories: stories };
+	fs.writeFileSync(path.join(getWorkspaceRoot(), PRD_FILENAME), JSON.stringify(prd, null, 2));
+}
+
+function makeStory(id: string, priority: number): UserStory {
+	return { id, title: `Story ${id}`, description: 'Do it', acceptanceCriteria: ['It works'], priority, executor: 'test-manual' };
+}
+
+suite('Extension: runs', () => {
+	let api: RalphRunnerApi;
+	let executor: ManualExecutor;
+	let registration: vscode.Disposable;
+
+	suiteSetup(async () => {
+		const extension = vscode.extensions.getExtension<RalphRunnerApi>(EXTENSION_ID);
+		assert.ok(extension, `${EXTENSION_ID} is not installed`);
+		api = await extension.activate();
+		// No git repository here: keep RALPH from looking for one
+		await vscode.workspace.getConfiguration('ralph-runner').update('git.checkpoints', false, vscode.ConfigurationTarget.Workspace);
+	});
+
+	setup(() => {
+		executor = new ManualExecutor();
+		registration = api.registerExecutor(executor);
+	});
+
+	teardown(() => {
+		registration.dispose();
+		fs.rmSync(path.join(getWorkspaceRoot(), PRD_FILENAME), { force: true });
+		fs.rmSync(path.join(getWorkspaceRoot(), RALPH_DIR), { recursive: true, force: true });
+	});
+
+	test('does not count a stopped story as a failed attempt', async () => {
+		writePrd([makeStory('US-001', 1)]);
+
+		// More stops than maxAttemptsPerStory (3) would have given up on the story
+		for (let stop = 0; stop < 4; stop++) {
+			const run = vscode.commands.executeCommand('ralph-runner.runStory', 'US-001');
+			assert.strictEqual((await executor.next()).storyId, 'US-001');
+			await vscode.commands.executeCommand('ralph-runner.stop');
+			await run;
+		}
+
+		const root = getWorkspaceRoot();
+		assert.deepStrictEqual(getStoryHistory(root, 'US-001'), []);
+		assert.strictEqual(getStoryAttempts(root, 'US-001'), undefined);
+		assert.strictEqual(RalphStateManager.getTaskStatus(root, 'US-001'), 'none');
+	});
+
+	test('pauses after the current story and resumes with the next', async () => {
+		writePrd([makeStory('US-001', 1), makeStory('US-002', 2)]);
+		const root = getWorkspaceRoot();
+
+		const run = vscode.commands.executeCommand('ralph-runner.start');
+		const first = await executor.next();
+		assert.strictEqual(first.storyId, 'US-001');
+		await vscode.commands.executeCommand('ralph-runner.pause');
+		first.finish({ summary: 'Did the first story.' });
+		await run;
+
+		assert.strictEqual(getStoryProgress(root, 'US-001')?.status, 'done');
+		assert.strictEqual(getStoryProgress(root, 'US-002'), undefined);
+		assert.strictEqual(RalphStateManager.readRunState(root)?.status, 'paused');
+
+		const resumed = vscode.commands.executeCommand('ralph-runner.resume');
+		const second = await executor.next();
+		assert.strictEqual(second.storyId, 'US-002');
+		second.finish();
+		await resumed;
+
+		assert.strictEqual(getStoryProgress(root, 'US-002')?.status, 'done');
+		assert.strictEqual(RalphStateManager.readRunState(root), undefined);
+	});
+
+	test('leaves a paused run alone while running a single story', async () => {
+		writePrd([makeStory('US-001', 1), makeStory('US-002', 2)]);
+		const root = getWorkspaceRoot();
+		RalphStateManager.writeRunState(root, { status: 'paused', loopsExecuted: 1 });
+		const paused = RalphStateManager.readRunState(root);
+
+		const run = vscode.commands.executeCommand('ralph-runner.runStory', 'US-002');
+		const story = await executor.next();
+		assert.deepStrictEqual(RalphStateManager.readRunState(root), paused);
+		story.finish();
+		await run;
+
+		assert.strictEqual(getStoryProgress(root, 'US-002')?.status, 'done');
+		assert.deepStrictEqual(RalphStateManager.readRunState(root), paused);
+	});
+});
+
+suite('Extension: language model tools', () => {
+	suiteSetup(async () => {
+		await vscode.extensions.getExtension<RalphRunnerApi>(EXTENSION_ID)?.activate();
+	});
 
-suite('Extension Test Suite', () => {
-	vscode.window.showInformationMessage('Start all tests.');
+	test('refuses tool calls that are not part of a RALPH conversation', async () => {
+		const marker = path.join(getWorkspaceRoot(), 'tool-ran.txt');
+		const command = `node -e "require('fs').writeFileSync('tool-ran.txt', '')"`;
+		const invoke = (name: string, input: object) => async () => {
+			await vscode.lm.invokeTool(name, { input, toolInvocationToken: undefined });
+		};
 
-	test('Sample test', () => {
-		assert.strictEqual(-1, [1, 2, 3].indexOf(5));
-		assert.strictEqual(-1, [1, 2, 3].indexOf(0));
+		await assert.rejects(invoke('ralph_runCommand', { command }));
+		await assert.rejects(invoke('ralph_runCommand', { command, ralphRequestKey: 'guessed' }));
+		await assert.rejects(invoke('ralph_writeFile', { path: 'tool-ran.txt', content: '' }));
+		assert.strictEqual(fs.existsSync(marker), false);
 	});
 });